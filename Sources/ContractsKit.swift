@@ -121,22 +121,35 @@ public struct ContractMetadata: Codable, Equatable {
     public let deprecated: Bool?
     /// Deprecation reason if deprecated
     public let deprecationReason: String?
+    /// Lint rule ids suppressed for this contract
+    public let suppressLint: [String]?
     
     public init(
         author: String? = nil,
         tags: [String]? = nil,
         documentationUrl: String? = nil,
         deprecated: Bool? = nil,
-        deprecationReason: String? = nil
+        deprecationReason: String? = nil,
+        suppressLint: [String]? = nil
     ) {
         self.author = author
         self.tags = tags
         self.documentationUrl = documentationUrl
         self.deprecated = deprecated
         self.deprecationReason = deprecationReason
+        self.suppressLint = suppressLint
     }
 }
 
+/**
+ * Names of the concrete contract kinds
+ */
+public enum ContractKind: String, Codable, CaseIterable {
+    case event = "event"
+    case api = "api"
+    case dataModel = "data-model"
+}
+
 // MARK: - Event Contract Types
 
 /**
@@ -186,6 +199,8 @@ public struct EventContract: BaseContract {
     public let metadata: ContractMetadata
     public let createdAt: Date
     public let updatedAt: Date
+    /// Kind discriminant; inferred from `eventType` when missing
+    public let kind: ContractKind?
     /// Event type identifier
     public let eventType: String
     /// Event payload schema (as JSON string for Codable compliance)
@@ -203,7 +218,8 @@ public struct EventContract: BaseContract {
         updatedAt: Date = Date(),
         eventType: String,
         payload: String,
-        eventMetadata: EventMetadata? = nil
+        eventMetadata: EventMetadata? = nil,
+        kind: ContractKind? = .event
     ) {
         self.id = id
         self.version = version
@@ -215,6 +231,7 @@ public struct EventContract: BaseContract {
         self.eventType = eventType
         self.payload = payload
         self.eventMetadata = eventMetadata
+        self.kind = kind
     }
 }
 
@@ -275,6 +292,8 @@ public struct ApiContract: BaseContract {
     public let metadata: ContractMetadata
     public let createdAt: Date
     public let updatedAt: Date
+    /// Kind discriminant; inferred from `method` and `path` when missing
+    public let kind: ContractKind?
     /// HTTP method
     public let method: HTTPMethod
     /// API endpoint path
@@ -298,7 +317,8 @@ public struct ApiContract: BaseContract {
         path: String,
         requestSchema: String? = nil,
         responseSchema: String? = nil,
-        auth: AuthRequirements? = nil
+        auth: AuthRequirements? = nil,
+        kind: ContractKind? = .api
     ) {
         self.id = id
         self.version = version
@@ -312,6 +332,7 @@ public struct ApiContract: BaseContract {
         self.requestSchema = requestSchema
         self.responseSchema = responseSchema
         self.auth = auth
+        self.kind = kind
     }
 }
 
@@ -364,19 +385,56 @@ public struct FieldDefinition: Codable, Equatable {
     public let description: String?
     /// Validation rules
     public let validation: [ValidationRule]?
+    /// Nested field definitions when type is 'object'
+    public let properties: [String: FieldDefinition]?
+    /// Element definition when type is 'array'
+    public var items: FieldDefinition? { itemsStorage?.value }
+    private let itemsStorage: Indirect<FieldDefinition>?
+    
+    enum CodingKeys: String, CodingKey {
+        case type, required, defaultValue, description, validation, properties
+        case itemsStorage = "items"
+    }
     
     public init(
         type: String,
         required: Bool? = nil,
         defaultValue: String? = nil,
         description: String? = nil,
-        validation: [ValidationRule]? = nil
+        validation: [ValidationRule]? = nil,
+        properties: [String: FieldDefinition]? = nil,
+        items: FieldDefinition? = nil
     ) {
         self.type = type
         self.required = required
         self.defaultValue = defaultValue
         self.description = description
         self.validation = validation
+        self.properties = properties
+        self.itemsStorage = items.map(Indirect.init)
+    }
+}
+
+/**
+ * Boxes a value so a struct can hold a value of its own type
+ */
+final class Indirect<Value: Codable & Equatable>: Codable, Equatable {
+    let value: Value
+    
+    init(_ value: Value) {
+        self.value = value
+    }
+    
+    required init(from decoder: Decoder) throws {
+        self.value = try Value(from: decoder)
+    }
+    
+    func encode(to encoder: Encoder) throws {
+        try value.encode(to: encoder)
+    }
+    
+    static func == (lhs: Indirect, rhs: Indirect) -> Bool {
+        lhs.value == rhs.value
     }
 }
 
@@ -452,6 +510,8 @@ public struct DataModelContract: BaseContract, Equatable {
     public let metadata: ContractMetadata
     public let createdAt: Date
     public let updatedAt: Date
+    /// Kind discriminant; inferred from `modelName` when missing
+    public let kind: ContractKind?
     /// Model name
     public let modelName: String
     /// Model fields
@@ -469,7 +529,8 @@ public struct DataModelContract: BaseContract, Equatable {
         updatedAt: Date = Date(),
         modelName: String,
         fields: [String: FieldDefinition],
-        constraints: ModelConstraints? = nil
+        constraints: ModelConstraints? = nil,
+        kind: ContractKind? = .dataModel
     ) {
         self.id = id
         self.version = version
@@ -481,5 +542,6 @@ public struct DataModelContract: BaseContract, Equatable {
         self.modelName = modelName
         self.fields = fields
         self.constraints = constraints
+        self.kind = kind
     }
 }
@@ -0,0 +1,211 @@
+/**
+ * AsyncAPI 3.0 export for event contracts
+ */
+
+import { EventContract, EventMetadata } from '../types';
+import { compareVersions, toSemanticVersion, toYaml } from '../utils';
+import { fieldMapToJsonSchema } from '../validation/fields';
+import { camelCase, pascalCase } from '../codegen/naming';
+
+/**
+ * The `info` object of an AsyncAPI document
+ */
+export interface AsyncApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+  [extension: string]: any;
+}
+
+/**
+ * An AsyncAPI 3.0 document. Only the top-level shape is typed; nested
+ * objects follow the specification.
+ */
+export interface AsyncApiDocument {
+  asyncapi: string;
+  info: AsyncApiInfo;
+  defaultContentType?: string;
+  servers?: Record<string, any>;
+  channels: Record<string, any>;
+  operations: Record<string, any>;
+  components?: {
+    schemas?: Record<string, any>;
+    messages?: Record<string, any>;
+    [section: string]: any;
+  };
+  [extension: string]: any;
+}
+
+/**
+ * Options for AsyncAPI export
+ */
+export interface AsyncApiExportOptions {
+  /** Servers keyed by name, e.g. `{ production: { host: 'broker:5672', protocol: 'amqp' } }` */
+  servers?: Record<string, { host: string; protocol: string; description?: string; [key: string]: any }>;
+  /** Whether the documented application sends or receives the events (default 'send') */
+  action?: 'send' | 'receive';
+  /** Add AMQP operation bindings for priority, persistence and TTL */
+  amqpBindings?: boolean;
+}
+
+/**
+ * AMQP message priorities (0-9) used for EventMetadata priorities
+ */
+const AMQP_PRIORITIES: Record<NonNullable<EventMetadata['priority']>, number> = {
+  low: 1,
+  normal: 4,
+  high: 7,
+  critical: 9
+};
+
+/**
+ * Builds an AsyncAPI 3.0 document with one channel, message and operation
+ * per event type. When several versions of an event are given, the latest
+ * one is documented.
+ */
+export function toAsyncApi(
+  contracts: EventContract[],
+  info: AsyncApiInfo,
+  options: AsyncApiExportOptions = {}
+): AsyncApiDocument {
+  const action = options.action || 'send';
+  const channels: Record<string, any> = {};
+  const operations: Record<string, any> = {};
+  const messages: Record<string, any> = {};
+  const schemas: Record<string, any> = {};
+
+  for (const contract of latestEvents(contracts)) {
+    const channelId = camelCase(contract.eventType);
+    const messageName = pascalCase(contract.eventType);
+
+    schemas[`${messageName}Payload`] = fieldMapToJsonSchema(contract.payload || {});
+    messages[messageName] = buildMessage(contract, messageName);
+
+    channels[channelId] = {
+      address: contract.eventType,
+      messages: {
+        [channelId]: { $ref: `#/components/messages/${messageName}` }
+      }
+    };
+    if (contract.description) {
+      channels[channelId].description = contract.description;
+    }
+
+    const operation: Record<string, any> = {
+      action,
+      channel: { $ref: `#/channels/${channelId}` },
+      summary: contract.name,
+      messages: [{ $ref: `#/channels/${channelId}/messages/${channelId}` }]
+    };
+    if (options.amqpBindings && contract.eventMetadata) {
+      operation.bindings = { amqp: amqpBinding(contract.eventMetadata) };
+    }
+    operations[`${action}${messageName}`] = operation;
+  }
+
+  const document: AsyncApiDocument = {
+    asyncapi: '3.0.0',
+    info,
+    defaultContentType: 'application/json',
+    servers: options.servers && Object.keys(options.servers).length > 0 ? options.servers : undefined,
+    channels,
+    operations
+  };
+  if (Object.keys(messages).length > 0) {
+    document.components = { schemas, messages };
+  }
+
+  return document;
+}
+
+/**
+ * Serializes an AsyncAPI document as JSON or YAML
+ */
+export function serializeAsyncApi(document: AsyncApiDocument, format: 'json' | 'yaml' = 'json'): string {
+  return format === 'yaml' ? toYaml(document) : `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Keeps the latest version of each event type
+ */
+function latestEvents(contracts: EventContract[]): EventContract[] {
+  const latest = new Map<string, EventContract>();
+  for (const contract of contracts) {
+    const current = latest.get(contract.eventType);
+    if (!current || compareVersions(contract.version, current.version) > 0) {
+      latest.set(contract.eventType, contract);
+    }
+  }
+  return [...latest.values()];
+}
+
+function buildMessage(contract: EventContract, messageName: string): Record<string, any> {
+  const message: Record<string, any> = {
+    name: contract.eventType,
+    title: contract.name
+  };
+
+  if (contract.description) {
+    message.description = contract.description;
+  }
+  message.contentType = 'application/json';
+  message.payload = { $ref: `#/components/schemas/${messageName}Payload` };
+
+  if (contract.eventMetadata && Object.keys(contract.eventMetadata).length > 0) {
+    message.traits = [metadataTrait(contract.eventMetadata)];
+  }
+  if (contract.metadata?.tags && contract.metadata.tags.length > 0) {
+    message.tags = contract.metadata.tags.map(name => ({ name }));
+  }
+  if (contract.metadata?.documentationUrl) {
+    message.externalDocs = { url: contract.metadata.documentationUrl };
+  }
+  if (contract.metadata?.deprecated) {
+    message['x-deprecated'] = contract.metadata.deprecationReason || true;
+  }
+  message['x-contract-id'] = contract.id;
+  message['x-contract-version'] = toSemanticVersion(contract.version);
+
+  return message;
+}
+
+/**
+ * Describes EventMetadata as the constant headers every message of the event carries
+ */
+function metadataTrait(metadata: EventMetadata): Record<string, any> {
+  const properties: Record<string, any> = {};
+
+  if (metadata.priority !== undefined) {
+    properties.priority = { type: 'string', enum: ['low', 'normal', 'high', 'critical'], const: metadata.priority };
+  }
+  if (metadata.category !== undefined) {
+    properties.category = { type: 'string', const: metadata.category };
+  }
+  if (metadata.persistent !== undefined) {
+    properties.persistent = { type: 'boolean', const: metadata.persistent };
+  }
+  if (metadata.ttl !== undefined) {
+    properties.ttl = { type: 'integer', const: metadata.ttl, description: 'Time to live in milliseconds' };
+  }
+
+  return {
+    headers: { type: 'object', properties },
+    'x-event-metadata': { ...metadata }
+  };
+}
+
+function amqpBinding(metadata: EventMetadata): Record<string, any> {
+  const binding: Record<string, any> = {};
+  if (metadata.ttl !== undefined) {
+    binding.expiration = metadata.ttl;
+  }
+  if (metadata.persistent !== undefined) {
+    // AMQP delivery mode 2 is persistent, 1 transient
+    binding.deliveryMode = metadata.persistent ? 2 : 1;
+  }
+  if (metadata.priority !== undefined) {
+    binding.priority = AMQP_PRIORITIES[metadata.priority];
+  }
+  binding.bindingVersion = '0.3.0';
+  return binding;
+}
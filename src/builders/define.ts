@@ -0,0 +1,40 @@
+/**
+ * Identity helpers that keep the literal types of a contract declaration,
+ * so InferPayload, InferRecord, InferRequest and InferResponse can read them
+ */
+
+import type {
+  ApiContract,
+  DataModelContract,
+  DeepMutable,
+  DeepReadonly,
+  EventContract
+} from '../types';
+
+/**
+ * Declares an event contract, keeping its literal types.
+ * The contract is returned unchanged and is not validated at runtime.
+ *
+ * @example
+ * const userCreated = defineEventContract({ ..., payload: { userId: { type: 'string', required: true } } });
+ * type UserCreated = InferPayload<typeof userCreated>; // { userId: string }
+ */
+export function defineEventContract<const C extends DeepReadonly<EventContract>>(contract: C): DeepMutable<C> {
+  return contract as DeepMutable<C>;
+}
+
+/**
+ * Declares an API contract, keeping its literal types.
+ * The contract is returned unchanged and is not validated at runtime.
+ */
+export function defineApiContract<const C extends DeepReadonly<ApiContract>>(contract: C): DeepMutable<C> {
+  return contract as DeepMutable<C>;
+}
+
+/**
+ * Declares a data model contract, keeping its literal types.
+ * The contract is returned unchanged and is not validated at runtime.
+ */
+export function defineDataModelContract<const C extends DeepReadonly<DataModelContract>>(contract: C): DeepMutable<C> {
+  return contract as DeepMutable<C>;
+}
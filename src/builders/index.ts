@@ -0,0 +1,301 @@
+/**
+ * Fluent builders that produce complete, validated contracts
+ */
+
+import {
+  ApiContract,
+  AuthRequirements,
+  BaseContract,
+  ContractMetadata,
+  ContractVersion,
+  DataModelContract,
+  EventContract,
+  EventMetadata,
+  FieldDefinition,
+  ForeignKey
+} from '../types';
+import {
+  ContractValidationError,
+  ValidationResult,
+  validateApiContract,
+  validateDataModelContract,
+  validateEventContract
+} from '../validation';
+import { parseSemanticVersion } from '../utils/semver';
+
+export * from './define';
+
+/**
+ * Shared setters for the BaseContract fields. `build()` validates the
+ * assembled contract and throws a ContractValidationError listing every
+ * problem; `draft()` returns it as is.
+ */
+export abstract class ContractBuilder<T extends BaseContract> {
+  protected contract: Partial<T>;
+
+  constructor(id: string) {
+    const now = new Date().toISOString();
+    const base: Partial<BaseContract> = {
+      id,
+      name: undefined,
+      version: { major: 1, minor: 0, patch: 0 },
+      metadata: { author: 'Unknown', tags: [], deprecated: false },
+      createdAt: now,
+      updatedAt: now
+    };
+    this.contract = base as Partial<T>;
+  }
+
+  name(name: string): this {
+    this.contract.name = name;
+    return this;
+  }
+
+  description(description: string): this {
+    this.contract.description = description;
+    return this;
+  }
+
+  /**
+   * Sets the version from a semver string such as `1.2.0` or a version object
+   */
+  version(version: string | ContractVersion): this {
+    this.contract.version = typeof version === 'string' ? parseSemanticVersion(version) : { ...version };
+    return this;
+  }
+
+  /**
+   * Merges metadata into what has been set so far
+   */
+  metadata(metadata: ContractMetadata): this {
+    this.contract.metadata = { ...this.contract.metadata, ...metadata };
+    return this;
+  }
+
+  author(author: string): this {
+    return this.metadata({ author });
+  }
+
+  /**
+   * Adds tags, skipping ones already present
+   */
+  tags(...tags: string[]): this {
+    const current = this.contract.metadata?.tags || [];
+    return this.metadata({ tags: [...current, ...tags.filter(tag => !current.includes(tag))] });
+  }
+
+  deprecated(reason?: string): this {
+    return this.metadata({ deprecated: true, deprecationReason: reason });
+  }
+
+  /**
+   * Sets the creation and update timestamps, which default to the time the
+   * builder was created
+   */
+  timestamps(createdAt: string, updatedAt: string = createdAt): this {
+    this.contract.createdAt = createdAt;
+    this.contract.updatedAt = updatedAt;
+    return this;
+  }
+
+  /**
+   * Returns a copy of the contract assembled so far, without validating it
+   */
+  draft(): Partial<T> {
+    return JSON.parse(JSON.stringify(this.contract));
+  }
+
+  /**
+   * Validates the assembled contract and returns it
+   */
+  build(): T {
+    const contract = this.draft();
+    const result = this.validate(contract);
+    if (!result.valid) {
+      throw new ContractValidationError(contract.id, result.errors);
+    }
+    return contract as T;
+  }
+
+  protected abstract validate(contract: Partial<T>): ValidationResult;
+}
+
+/**
+ * Builds an EventContract
+ */
+export class EventContractBuilder extends ContractBuilder<EventContract> {
+  constructor(id: string) {
+    super(id);
+    this.contract.kind = 'event';
+    this.contract.eventType = undefined;
+    this.contract.payload = {};
+  }
+
+  eventType(eventType: string): this {
+    this.contract.eventType = eventType;
+    return this;
+  }
+
+  /**
+   * Replaces the whole payload definition
+   */
+  payload(payload: Record<string, FieldDefinition | string>): this {
+    this.contract.payload = { ...payload };
+    return this;
+  }
+
+  payloadField(name: string, definition: FieldDefinition | string): this {
+    this.contract.payload = { ...this.contract.payload, [name]: definition };
+    return this;
+  }
+
+  /**
+   * Merges event metadata into what has been set so far
+   */
+  eventMetadata(eventMetadata: EventMetadata): this {
+    this.contract.eventMetadata = { ...this.contract.eventMetadata, ...eventMetadata };
+    return this;
+  }
+
+  priority(priority: NonNullable<EventMetadata['priority']>): this {
+    return this.eventMetadata({ priority });
+  }
+
+  category(category: string): this {
+    return this.eventMetadata({ category });
+  }
+
+  persistent(persistent = true): this {
+    return this.eventMetadata({ persistent });
+  }
+
+  /**
+   * Sets the time to live in milliseconds
+   */
+  ttl(ttl: number): this {
+    return this.eventMetadata({ ttl });
+  }
+
+  protected validate(contract: Partial<EventContract>): ValidationResult {
+    return validateEventContract(contract);
+  }
+}
+
+/**
+ * Builds an ApiContract
+ */
+export class ApiContractBuilder extends ContractBuilder<ApiContract> {
+  constructor(id: string) {
+    super(id);
+    this.contract.kind = 'api';
+  }
+
+  method(method: ApiContract['method']): this {
+    this.contract.method = method;
+    return this;
+  }
+
+  path(path: string): this {
+    this.contract.path = path;
+    return this;
+  }
+
+  /**
+   * Sets method and path together, e.g. `endpoint('POST', '/api/v1/users')`
+   */
+  endpoint(method: ApiContract['method'], path: string): this {
+    return this.method(method).path(path);
+  }
+
+  requestSchema(schema: Record<string, any>): this {
+    this.contract.requestSchema = schema;
+    return this;
+  }
+
+  responseSchema(schema: Record<string, any>): this {
+    this.contract.responseSchema = schema;
+    return this;
+  }
+
+  auth(type: AuthRequirements['type'], options: Omit<AuthRequirements, 'type'> = {}): this {
+    this.contract.auth = { type, ...options };
+    return this;
+  }
+
+  protected validate(contract: Partial<ApiContract>): ValidationResult {
+    return validateApiContract(contract);
+  }
+}
+
+/**
+ * Builds a DataModelContract
+ */
+export class DataModelContractBuilder extends ContractBuilder<DataModelContract> {
+  constructor(id: string) {
+    super(id);
+    this.contract.kind = 'data-model';
+    this.contract.modelName = undefined;
+    this.contract.fields = {};
+  }
+
+  modelName(modelName: string): this {
+    this.contract.modelName = modelName;
+    return this;
+  }
+
+  /**
+   * Replaces all field definitions
+   */
+  fields(fields: Record<string, FieldDefinition>): this {
+    this.contract.fields = { ...fields };
+    return this;
+  }
+
+  field(name: string, definition: FieldDefinition): this {
+    this.contract.fields = { ...this.contract.fields, [name]: definition };
+    return this;
+  }
+
+  unique(...fields: string[]): this {
+    const constraints = this.contract.constraints || {};
+    this.contract.constraints = { ...constraints, unique: [...(constraints.unique || []), ...fields] };
+    return this;
+  }
+
+  index(...fields: string[]): this {
+    const constraints = this.contract.constraints || {};
+    this.contract.constraints = { ...constraints, indexes: [...(constraints.indexes || []), ...fields] };
+    return this;
+  }
+
+  foreignKey(foreignKey: ForeignKey): this {
+    const constraints = this.contract.constraints || {};
+    this.contract.constraints = { ...constraints, foreignKeys: [...(constraints.foreignKeys || []), foreignKey] };
+    return this;
+  }
+
+  protected validate(contract: Partial<DataModelContract>): ValidationResult {
+    return validateDataModelContract(contract);
+  }
+}
+
+/**
+ * Starts building an event contract
+ */
+export function eventContract(id: string): EventContractBuilder {
+  return new EventContractBuilder(id);
+}
+
+/**
+ * Starts building an API contract
+ */
+export function apiContract(id: string): ApiContractBuilder {
+  return new ApiContractBuilder(id);
+}
+
+/**
+ * Starts building a data model contract
+ */
+export function dataModelContract(id: string): DataModelContractBuilder {
+  return new DataModelContractBuilder(id);
+}
@@ -0,0 +1,421 @@
+#!/usr/bin/env node
+/**
+ * pll-contracts command-line tool
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Contract, DataModelContract } from '../types';
+import { loadContractsDirectory, loadContractFile, ContractFileResult } from '../loader';
+import { diffContracts, formatContractDiff } from '../diff';
+import {
+  checkModelIntegrity,
+  validateApiContract,
+  validateContractId,
+  validateDataModelContract,
+  validateEventContract
+} from '../validation';
+import { ContractRegistry } from '../registry';
+import { ContractLinter, LintConfig } from '../lint';
+import {
+  createEventContract,
+  createApiContract,
+  createDataModelContract,
+  isDataModelContract,
+  parseSemanticVersion,
+  toSemanticVersion
+} from '../utils';
+
+/**
+ * Process exit codes used by the CLI
+ */
+export const EXIT_CODES = {
+  /** Command succeeded and every check passed */
+  success: 0,
+  /** Command ran but a check failed (invalid contract, lint error, insufficient version) */
+  failure: 1,
+  /** Invalid arguments or an unreadable input */
+  usage: 2
+} as const;
+
+/**
+ * Output streams the CLI writes to
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /** Directory relative paths resolve against */
+  cwd: string;
+}
+
+type OutputFormat = 'text' | 'json';
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Flags that take a value; all others are boolean switches
+ */
+const VALUE_FLAGS = ['format', 'name', 'out', 'version', 'event-type', 'method', 'path', 'model-name', 'config'];
+
+const USAGE = `Usage: pll-contracts <command> [options]
+
+Commands:
+  validate <dir>           Validate every contract file and the relations between models
+  diff <old> <new>         Compare two contract files and check the version bump
+  lint <dir>               Validate contracts and check style and policy rules
+  new event|api|model <id> Scaffold a new contract file
+
+Options:
+  --format text|json       Output format (default: text)
+  --strict                 lint: treat warnings as errors
+  --config <file>          lint: JSON file configuring rule severities and options
+  --name <name>            new: human-readable name
+  --version <semver>       new: initial version (default: 1.0.0)
+  --event-type <type>      new event: event type (default: derived from id)
+  --method <method>        new api: HTTP method (default: GET)
+  --path <path>            new api: endpoint path (default: /<id>)
+  --model-name <name>      new model: model name (default: derived from id)
+  --out <file>             new: output file (default: <id>.json)
+  --force                  new: overwrite an existing file
+  -h, --help               Show this help
+
+Exit codes: 0 success, 1 check failed, 2 usage error`;
+
+/**
+ * Runs the CLI with the given arguments and returns the exit code
+ */
+export function runCli(argv: string[], io: CliIO = defaultIO()): number {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    io.stderr((error as Error).message);
+    return EXIT_CODES.usage;
+  }
+
+  const [command, ...rest] = args.positionals;
+  if (args.flags.help) {
+    io.stdout(USAGE);
+    return EXIT_CODES.success;
+  }
+  if (!command) {
+    io.stderr(USAGE);
+    return EXIT_CODES.usage;
+  }
+
+  const format = args.flags.format || 'text';
+  if (format !== 'text' && format !== 'json') {
+    io.stderr(`Unknown format '${format}'; expected text or json`);
+    return EXIT_CODES.usage;
+  }
+
+  switch (command) {
+    case 'validate':
+      return runValidate(rest, format, io);
+    case 'diff':
+      return runDiff(rest, format, io);
+    case 'lint':
+      return runLint(rest, args.flags, format, io);
+    case 'new':
+      return runNew(rest, args.flags, format, io);
+    default:
+      io.stderr(`Unknown command '${command}'\n\n${USAGE}`);
+      return EXIT_CODES.usage;
+  }
+}
+
+function runValidate(positionals: string[], format: OutputFormat, io: CliIO): number {
+  const directory = requireDirectory(positionals, 'validate', io);
+  if (!directory) {
+    return EXIT_CODES.usage;
+  }
+
+  const result = loadContractsDirectory(directory);
+  const files = result.files.map(file => summarizeFile(file, io.cwd));
+  const integrity = checkModelIntegrity(latestDataModels(result.registry));
+  const valid = result.valid && integrity.valid;
+
+  if (format === 'json') {
+    io.stdout(JSON.stringify({ valid, files, integrity: integrity.issues }, null, 2));
+  } else {
+    for (const file of result.files) {
+      io.stdout(formatFileResult(file, io.cwd));
+    }
+    for (const issue of integrity.issues) {
+      io.stdout(`${issue.severity === 'error' ? '✗' : '!'} ${issue.model} ${issue.path}: ${issue.message}`);
+    }
+    const invalid = result.files.filter(file => file.diagnostics.length > 0).length;
+    io.stdout(`\n${result.files.length} file(s) checked, ${invalid} with errors`);
+  }
+
+  return valid ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+function runDiff(positionals: string[], format: OutputFormat, io: CliIO): number {
+  if (positionals.length !== 2) {
+    io.stderr('Usage: pll-contracts diff <old> <new>');
+    return EXIT_CODES.usage;
+  }
+
+  const [oldFile, newFile] = positionals.map(file => loadContractFile(path.resolve(io.cwd, file)));
+  for (const file of [oldFile, newFile]) {
+    if (!file.contract) {
+      io.stderr(formatFileResult(file, io.cwd));
+      return EXIT_CODES.usage;
+    }
+  }
+
+  const diff = diffContracts(oldFile.contract as Contract, newFile.contract as Contract);
+
+  if (format === 'json') {
+    io.stdout(JSON.stringify({
+      ...diff,
+      minimumVersion: toSemanticVersion(diff.minimumVersion)
+    }, null, 2));
+  } else if (diff.changes.length === 0) {
+    io.stdout('No changes');
+  } else {
+    for (const line of formatContractDiff(diff)) {
+      io.stdout(line);
+    }
+    io.stdout(`\nRequired bump: ${diff.requiredBump}, actual bump: ${diff.actualBump}`);
+  }
+
+  return diff.versionSufficient ? EXIT_CODES.success : EXIT_CODES.failure;
+}
+
+function runLint(
+  positionals: string[],
+  flags: Record<string, string | boolean>,
+  format: OutputFormat,
+  io: CliIO
+): number {
+  const directory = requireDirectory(positionals, 'lint', io);
+  if (!directory) {
+    return EXIT_CODES.usage;
+  }
+
+  let config: LintConfig = {};
+  const configFile = stringFlag(flags, 'config');
+  if (configFile) {
+    try {
+      config = JSON.parse(fs.readFileSync(path.resolve(io.cwd, configFile), 'utf-8'));
+    } catch (error) {
+      io.stderr(`Cannot read lint config ${configFile}: ${(error as Error).message}`);
+      return EXIT_CODES.usage;
+    }
+  }
+
+  const linter = new ContractLinter(config);
+  const result = loadContractsDirectory(directory);
+  let findings;
+  try {
+    findings = result.files.map(file => ({
+      file: path.relative(io.cwd, file.file),
+      diagnostics: file.diagnostics.map(diagnostic => diagnostic.message),
+      findings: file.contract ? linter.lint(file.contract) : []
+    }));
+  } catch (error) {
+    io.stderr((error as Error).message);
+    return EXIT_CODES.usage;
+  }
+
+  const lintFindings = findings.flatMap(file => file.findings);
+  const errorCount = findings.reduce((total, file) => total + file.diagnostics.length, 0) +
+    lintFindings.filter(finding => finding.severity === 'error').length;
+  const warningCount = lintFindings.filter(finding => finding.severity === 'warning').length;
+  const failed = errorCount > 0 || (flags.strict === true && warningCount > 0);
+
+  if (format === 'json') {
+    io.stdout(JSON.stringify({ valid: !failed, files: findings }, null, 2));
+  } else {
+    for (const file of findings) {
+      for (const message of file.diagnostics) {
+        io.stdout(`${file.file}: error: ${message}`);
+      }
+      for (const finding of file.findings) {
+        const location = finding.path ? ` ${finding.path}:` : '';
+        io.stdout(`${file.file}: ${finding.severity}:${location} ${finding.message} (${finding.ruleId})`);
+      }
+    }
+    io.stdout(`\n${errorCount} error(s), ${warningCount} warning(s)`);
+  }
+
+  return failed ? EXIT_CODES.failure : EXIT_CODES.success;
+}
+
+function runNew(
+  positionals: string[],
+  flags: Record<string, string | boolean>,
+  format: OutputFormat,
+  io: CliIO
+): number {
+  const [kind, id] = positionals;
+  if (!['event', 'api', 'model'].includes(kind) || !id || positionals.length > 2) {
+    io.stderr('Usage: pll-contracts new event|api|model <id> [options]');
+    return EXIT_CODES.usage;
+  }
+  if (!validateContractId(id)) {
+    io.stderr(`Invalid contract id '${id}'; ids may only contain letters, digits, '-' and '_'`);
+    return EXIT_CODES.usage;
+  }
+
+  let version;
+  try {
+    version = parseSemanticVersion(stringFlag(flags, 'version') || '1.0.0');
+  } catch (error) {
+    io.stderr((error as Error).message);
+    return EXIT_CODES.usage;
+  }
+
+  const name = stringFlag(flags, 'name') || titleCase(id);
+  let contract: Partial<Contract>;
+
+  if (kind === 'event') {
+    const eventType = stringFlag(flags, 'event-type') || id.replace(/-event$/, '').replace(/-/g, '.');
+    contract = createEventContract(id, name, eventType, {}, version);
+  } else if (kind === 'api') {
+    const method = (stringFlag(flags, 'method') || 'GET').toUpperCase();
+    if (!['GET', 'POST', 'PUT', 'DELETE', 'PATCH'].includes(method)) {
+      io.stderr(`Unsupported HTTP method '${method}'`);
+      return EXIT_CODES.usage;
+    }
+    const apiPath = stringFlag(flags, 'path') || `/${id.replace(/-api$/, '')}`;
+    contract = createApiContract(id, name, method as 'GET', apiPath, version);
+  } else {
+    const modelName = stringFlag(flags, 'model-name') || titleCase(id.replace(/-(data-)?model$/, '')).replace(/ /g, '');
+    contract = createDataModelContract(id, name, modelName, {
+      id: { type: 'string', required: true, description: 'Unique identifier' }
+    }, version);
+  }
+
+  const validation = kind === 'event'
+    ? validateEventContract(contract)
+    : kind === 'api' ? validateApiContract(contract) : validateDataModelContract(contract);
+  if (!validation.valid) {
+    for (const error of validation.errors) {
+      io.stderr(`${error.path || '(root)'}: ${error.message}`);
+    }
+    return EXIT_CODES.usage;
+  }
+
+  const outFile = path.resolve(io.cwd, stringFlag(flags, 'out') || `${id}.json`);
+  if (fs.existsSync(outFile) && flags.force !== true) {
+    io.stderr(`${path.relative(io.cwd, outFile)} already exists; use --force to overwrite`);
+    return EXIT_CODES.failure;
+  }
+
+  fs.mkdirSync(path.dirname(outFile), { recursive: true });
+  fs.writeFileSync(outFile, `${JSON.stringify(contract, null, 2)}\n`);
+
+  if (format === 'json') {
+    io.stdout(JSON.stringify({ file: path.relative(io.cwd, outFile), contract }, null, 2));
+  } else {
+    io.stdout(`Created ${path.relative(io.cwd, outFile)}`);
+  }
+  return EXIT_CODES.success;
+}
+
+/**
+ * The newest version of each data model, for cross-model checks
+ */
+function latestDataModels(registry: ContractRegistry): DataModelContract[] {
+  return registry
+    .ids()
+    .map(id => registry.getLatest(id))
+    .filter(isDataModelContract);
+}
+
+function requireDirectory(positionals: string[], command: string, io: CliIO): string | undefined {
+  if (positionals.length !== 1) {
+    io.stderr(`Usage: pll-contracts ${command} <dir>`);
+    return undefined;
+  }
+
+  const directory = path.resolve(io.cwd, positionals[0]);
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    io.stderr(`${positionals[0]} is not a directory`);
+    return undefined;
+  }
+  return directory;
+}
+
+function summarizeFile(file: ContractFileResult, cwd: string) {
+  return {
+    file: path.relative(cwd, file.file),
+    kind: file.kind,
+    id: file.contract?.id,
+    version: file.contract ? toSemanticVersion(file.contract.version) : undefined,
+    diagnostics: file.diagnostics
+  };
+}
+
+function formatFileResult(file: ContractFileResult, cwd: string): string {
+  const name = path.relative(cwd, file.file);
+  if (file.diagnostics.length === 0) {
+    return `✓ ${name}`;
+  }
+
+  const lines = file.diagnostics.map(diagnostic => {
+    const location = diagnostic.line !== undefined
+      ? `${diagnostic.line}:${diagnostic.column} `
+      : diagnostic.path ? `${diagnostic.path}: ` : '';
+    return `    ${location}${diagnostic.message}`;
+  });
+  return [`✗ ${name}`, ...lines].join('\n');
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h') {
+      flags.help = true;
+    } else if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+      if (VALUE_FLAGS.includes(name)) {
+        const value = inline !== undefined ? inline : argv[++i];
+        if (value === undefined) {
+          throw new Error(`Option --${name} requires a value`);
+        }
+        flags[name] = value;
+      } else {
+        flags[name] = true;
+      }
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+function stringFlag(flags: Record<string, string | boolean>, name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function titleCase(id: string): string {
+  return id
+    .split(/[-_.\s]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function defaultIO(): CliIO {
+  return {
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`),
+    cwd: process.cwd()
+  };
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
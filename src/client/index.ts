@@ -0,0 +1,345 @@
+/**
+ * HTTP client generated at runtime from API contracts. This module avoids
+ * Node built-ins so browser bundles can import it on its own, as
+ * `@pll/contracts/client`.
+ */
+
+import type { ApiContract, InferRequest, InferResponse, InferSchema } from '../types';
+import {
+  ValidationError,
+  isBodylessMethod,
+  validateApiRequest,
+  validateApiResponse
+} from '../validation';
+
+/**
+ * The subset of the Fetch API the client uses, so any compatible
+ * implementation (or a test double) can be injected
+ */
+export type FetchLike = (url: string, init: FetchRequestInit) => Promise<FetchResponseLike>;
+
+/**
+ * Request options passed to `fetch`
+ */
+export interface FetchRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Response fields read from `fetch`
+ */
+export interface FetchResponseLike {
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+/**
+ * A credential, or a function that returns the current one (e.g. a token
+ * that is refreshed)
+ */
+export type CredentialSource = string | (() => string | Promise<string>);
+
+/**
+ * Credentials attached according to each contract's `auth.type`
+ */
+export interface ApiCredentials {
+  /** Sent as `Authorization: Bearer <token>` for `bearer` and `oauth2` */
+  bearerToken?: CredentialSource;
+  /** Sent as `Authorization: Basic <base64>` for `basic` */
+  basic?: { username: string; password: string };
+  /** Sent in `apiKeyHeader` for `api-key` */
+  apiKey?: CredentialSource;
+  /** Header carrying the API key (default `X-API-Key`) */
+  apiKeyHeader?: string;
+}
+
+/**
+ * Options for createApiClient
+ */
+export interface ApiClientOptions {
+  /** Prefix for every contract path, e.g. `https://api.example.com` */
+  baseUrl: string;
+  /** Fetch implementation (default: the global `fetch`) */
+  fetch?: FetchLike;
+  credentials?: ApiCredentials;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** Check requests against `requestSchema` before sending (default true) */
+  validateRequests?: boolean;
+  /** Check 2xx responses against `responseSchema` (default true) */
+  validateResponses?: boolean;
+}
+
+/**
+ * Query string values the client can serialize
+ */
+export type QueryValue = string | number | boolean | Array<string | number | boolean>;
+
+type RequestBody<C> = InferRequest<C> extends undefined ? unknown : InferRequest<C>;
+
+type QueryOf<C> = C extends { readonly method: 'GET' | 'DELETE' }
+  ? InferRequest<C> extends undefined ? Record<string, QueryValue> : InferRequest<C>
+  : Record<string, QueryValue>;
+
+type SuccessKeys<S> = Extract<keyof S, `2${string}`>;
+
+/**
+ * Type of a successful (2xx) response body
+ */
+export type ApiSuccessResponse<C> = C extends { readonly responseSchema: infer S }
+  ? [SuccessKeys<S>] extends [never]
+    ? InferResponse<C>
+    : { [K in SuccessKeys<S>]: InferSchema<S[K]> }[SuccessKeys<S>]
+  : unknown;
+
+/**
+ * Arguments of a client call
+ */
+export interface ApiCallRequest<C = ApiContract> {
+  /** Values for the path parameters, e.g. `{ id: 42 }` for `/users/:id` */
+  params?: Record<string, string | number>;
+  /** Query string; described by `requestSchema` for GET and DELETE */
+  query?: QueryOf<C>;
+  /** JSON body, described by `requestSchema` */
+  body?: RequestBody<C>;
+  /** Extra headers for this call */
+  headers?: Record<string, string>;
+}
+
+/**
+ * One call of the client
+ */
+export type ApiCall<C> = (request?: ApiCallRequest<C>) => Promise<ApiSuccessResponse<C>>;
+
+/**
+ * Client with one call per contract, keyed by contract id
+ */
+export type ApiClient<C extends ApiContract> = { [K in C as K['id']]: ApiCall<K> };
+
+/**
+ * Thrown when a request or response does not match its contract
+ */
+export class ApiValidationError extends Error {
+  constructor(
+    public readonly contractId: string,
+    public readonly direction: 'request' | 'response',
+    public readonly errors: ValidationError[]
+  ) {
+    super(
+      `Invalid ${direction} for '${contractId}' (${errors.length} error(s)):\n` +
+      errors.map(error => `  - ${error.path || '(root)'}: ${error.message}`).join('\n')
+    );
+    this.name = 'ApiValidationError';
+  }
+}
+
+/**
+ * Thrown for a non-2xx response. `body` is the decoded response body.
+ */
+export class ApiResponseError<TBody = unknown> extends Error {
+  constructor(
+    public readonly contractId: string,
+    public readonly status: number,
+    public readonly body: TBody
+  ) {
+    super(`'${contractId}' failed with status ${status}`);
+    this.name = 'ApiResponseError';
+  }
+}
+
+/**
+ * Creates a client with one call per contract id. Each call fills the path
+ * parameters, serializes the query and JSON body, attaches credentials for
+ * the contract's `auth.type`, and checks the request before sending and a
+ * 2xx response on return. Non-2xx responses reject with an ApiResponseError.
+ */
+export function createApiClient<C extends ApiContract>(
+  contracts: readonly C[],
+  options: ApiClientOptions
+): ApiClient<C> {
+  const client: Record<string, ApiCall<any>> = {};
+  for (const contract of contracts) {
+    if (client[contract.id]) {
+      throw new Error(`Duplicate API contract id '${contract.id}'`);
+    }
+    client[contract.id] = (request = {}) => callApi(contract, request, options);
+  }
+  return client as ApiClient<C>;
+}
+
+async function callApi(
+  contract: ApiContract,
+  request: ApiCallRequest<any>,
+  options: ApiClientOptions
+): Promise<any> {
+  const fetchImpl: FetchLike | undefined = options.fetch || (globalThis as any).fetch;
+  if (!fetchImpl) {
+    throw new Error('No fetch implementation is available; pass one in options.fetch');
+  }
+
+  const params = stringifyValues(request.params || {});
+  const query = serializeQuery((request.query || {}) as Record<string, QueryValue>);
+  const bodyless = isBodylessMethod(contract.method);
+
+  if (options.validateRequests !== false) {
+    const result = validateApiRequest(contract, { params, query, body: bodyless ? undefined : request.body });
+    if (!result.valid) {
+      throw new ApiValidationError(contract.id, 'request', result.errors);
+    }
+  }
+
+  const headers: Record<string, string> = {
+    accept: 'application/json',
+    ...options.headers,
+    ...(await authHeaders(contract, options.credentials || {})),
+    ...request.headers
+  };
+  const init: FetchRequestInit = { method: contract.method, headers };
+  if (!bodyless && request.body !== undefined) {
+    headers['content-type'] = 'application/json';
+    init.body = JSON.stringify(request.body);
+  }
+
+  const response = await fetchImpl(buildUrl(options.baseUrl, contract.path, params, query), init);
+  const body = await readBody(response);
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new ApiResponseError(contract.id, response.status, body);
+  }
+  if (options.validateResponses !== false) {
+    const result = validateApiResponse(contract, response.status, body);
+    if (!result.valid) {
+      throw new ApiValidationError(contract.id, 'response', result.errors);
+    }
+  }
+  return body;
+}
+
+/**
+ * Headers for the contract's auth requirements. Throws when required
+ * credentials are missing; optional auth is skipped instead.
+ */
+async function authHeaders(contract: ApiContract, credentials: ApiCredentials): Promise<Record<string, string>> {
+  const auth = contract.auth;
+  if (!auth || auth.type === 'none') {
+    return {};
+  }
+
+  const missing = (name: string) => {
+    if (auth.optional) {
+      return {};
+    }
+    throw new Error(`'${contract.id}' requires ${auth.type} authentication but no ${name} was given`);
+  };
+
+  switch (auth.type) {
+    case 'bearer':
+    case 'oauth2': {
+      if (credentials.bearerToken === undefined) {
+        return missing('bearerToken');
+      }
+      return { authorization: `Bearer ${await resolveCredential(credentials.bearerToken)}` };
+    }
+    case 'basic': {
+      if (!credentials.basic) {
+        return missing('basic credentials');
+      }
+      const { username, password } = credentials.basic;
+      return { authorization: `Basic ${encodeBase64(`${username}:${password}`)}` };
+    }
+    case 'api-key': {
+      if (credentials.apiKey === undefined) {
+        return missing('apiKey');
+      }
+      return { [(credentials.apiKeyHeader || 'X-API-Key').toLowerCase()]: await resolveCredential(credentials.apiKey) };
+    }
+  }
+}
+
+/**
+ * Base64 of the UTF-8 bytes of a string, using only APIs that browsers
+ * and Node share
+ */
+function encodeBase64(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+async function resolveCredential(source: CredentialSource): Promise<string> {
+  return typeof source === 'function' ? source() : source;
+}
+
+function buildUrl(
+  baseUrl: string,
+  path: string,
+  params: Record<string, string>,
+  query: Record<string, string | string[]>
+): string {
+  const filled = path.replace(
+    /:([A-Za-z_][A-Za-z0-9_]*)|\{([A-Za-z_][A-Za-z0-9_]*)\}/g,
+    (match, colonName, braceName) => {
+      const value = params[colonName || braceName];
+      return value === undefined ? match : encodeURIComponent(value);
+    }
+  );
+
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      search.append(name, item);
+    }
+  }
+  const queryString = search.toString();
+
+  return `${baseUrl.replace(/\/+$/, '')}${filled}${queryString ? `?${queryString}` : ''}`;
+}
+
+function stringifyValues(values: Record<string, string | number>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      result[name] = String(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts query values to the strings sent on the wire, which is also what
+ * the request is validated as
+ */
+function serializeQuery(query: Record<string, QueryValue>): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      result[name] = Array.isArray(value) ? value.map(String) : String(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Decodes a response body: JSON when it parses, otherwise the raw text,
+ * and `undefined` when empty
+ */
+async function readBody(response: FetchResponseLike): Promise<any> {
+  const text = await response.text();
+  if (text === '') {
+    return undefined;
+  }
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('json') || !contentType) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
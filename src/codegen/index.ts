@@ -0,0 +1,6 @@
+/**
+ * Code generation from contracts
+ */
+
+export * from './typescript';
+export * from './swift';
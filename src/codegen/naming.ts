@@ -0,0 +1,45 @@
+/**
+ * Identifier helpers shared by the code generators
+ */
+
+/**
+ * Splits an identifier or phrase into words, handling kebab, snake, dotted,
+ * camel and Pascal case
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Converts text to PascalCase, e.g. `user.created` → `UserCreated`
+ */
+export function pascalCase(text: string): string {
+  const name = splitWords(text)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Converts text to camelCase, e.g. `created_at` → `createdAt`
+ */
+export function camelCase(text: string): string {
+  const pascal = pascalCase(text);
+  return pascal.startsWith('_') ? pascal : pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Strips a trailing kind suffix from a contract id, e.g. `create-user-api` → `create-user`
+ */
+export function stripIdSuffix(id: string, suffixes: string[]): string {
+  for (const suffix of suffixes) {
+    if (id.endsWith(`-${suffix}`) && id.length > suffix.length + 1) {
+      return id.slice(0, -(suffix.length + 1));
+    }
+  }
+  return id;
+}
@@ -0,0 +1,657 @@
+/**
+ * Swift Codable source generation from contracts
+ */
+
+import {
+  BaseContract,
+  Contract,
+  EventContract,
+  ApiContract,
+  DataModelContract,
+  FieldDefinition
+} from '../types';
+import { inferContractKind, toSemanticVersion } from '../utils';
+import { normalizeFieldDefinition } from '../validation/fields';
+import { resolveLocalRef } from '../validation/json-schema';
+import { isStatusKeyedSchema } from '../validation/api';
+import { camelCase, pascalCase, stripIdSuffix } from './naming';
+
+/**
+ * Options for Swift generation
+ */
+export interface SwiftGeneratorOptions {
+  /** Access level of generated declarations (default 'public') */
+  accessLevel?: 'public' | 'internal';
+  /**
+   * How `date` fields and `date-time` strings are typed (default 'Date').
+   * Files using `Date` include a ContractCoding helper whose coders read
+   * and write ISO-8601 strings.
+   */
+  dateType?: 'Date' | 'String';
+  /** Protocols every struct conforms to (default Codable, Equatable) */
+  protocols?: string[];
+  /** Indentation unit (default four spaces) */
+  indent?: string;
+}
+
+/**
+ * A generated struct or enum, with nested declarations
+ */
+type SwiftDeclaration = SwiftStruct | SwiftEnum;
+
+interface SwiftStruct {
+  kind: 'struct';
+  name: string;
+  doc: string[];
+  properties: SwiftProperty[];
+  nested: SwiftDeclaration[];
+}
+
+interface SwiftEnum {
+  kind: 'enum';
+  name: string;
+  doc: string[];
+  rawType: 'String' | 'Int' | 'Double';
+  cases: { name: string; value: string | number }[];
+}
+
+interface SwiftProperty {
+  /** Swift property name */
+  name: string;
+  /** Key in the encoded JSON */
+  key: string;
+  type: string;
+  optional: boolean;
+  description?: string;
+}
+
+/**
+ * Tracks what a generation run needs beyond the declarations themselves
+ */
+interface SwiftContext {
+  options: SwiftGeneratorOptions;
+  /** Whether the JSONValue helper enum is referenced */
+  usesJsonValue: boolean;
+  /** Whether any property is a `Date`, which needs the ContractCoding helper */
+  usesDate: boolean;
+}
+
+const SWIFT_KEYWORDS = new Set([
+  'associatedtype', 'class', 'deinit', 'enum', 'extension', 'fileprivate', 'func', 'import', 'init',
+  'inout', 'internal', 'let', 'open', 'operator', 'private', 'protocol', 'public', 'rethrows', 'static',
+  'struct', 'subscript', 'typealias', 'var', 'break', 'case', 'continue', 'default', 'defer', 'do',
+  'else', 'fallthrough', 'for', 'guard', 'if', 'in', 'repeat', 'return', 'switch', 'where', 'while',
+  'as', 'Any', 'catch', 'false', 'is', 'nil', 'super', 'self', 'Self', 'throw', 'throws', 'true', 'try',
+  'Type', 'Protocol'
+]);
+
+/**
+ * Generates a Swift source file with Codable types for every given contract:
+ * a struct per data model, a payload struct per event and request/response
+ * structs per API
+ */
+export function generateSwiftModule(contracts: Contract[], options: SwiftGeneratorOptions = {}): string {
+  const context: SwiftContext = { options, usesJsonValue: false, usesDate: false };
+  const declarations = contracts.flatMap(contract => buildContractDeclarations(contract, context));
+  return renderFile(declarations, context);
+}
+
+/**
+ * Generates a Swift struct for the records of a data model contract
+ */
+export function generateSwiftDataModel(model: DataModelContract, options: SwiftGeneratorOptions = {}): string {
+  const context: SwiftContext = { options, usesJsonValue: false, usesDate: false };
+  return renderFile([buildDataModel(model, context)], context);
+}
+
+/**
+ * Generates a Swift struct for the payload of an event contract
+ */
+export function generateSwiftEventPayload(contract: EventContract, options: SwiftGeneratorOptions = {}): string {
+  const context: SwiftContext = { options, usesJsonValue: false, usesDate: false };
+  return renderFile([buildEventPayload(contract, context)], context);
+}
+
+/**
+ * Generates Swift request and response structs for an API contract
+ */
+export function generateSwiftApiTypes(contract: ApiContract, options: SwiftGeneratorOptions = {}): string {
+  const context: SwiftContext = { options, usesJsonValue: false, usesDate: false };
+  return renderFile(buildApiTypes(contract, context), context);
+}
+
+function buildContractDeclarations(contract: Contract, context: SwiftContext): SwiftDeclaration[] {
+  switch (inferContractKind(contract)) {
+    case 'event':
+      return [buildEventPayload(contract as EventContract, context)];
+    case 'api':
+      return buildApiTypes(contract as ApiContract, context);
+    case 'data-model':
+      return [buildDataModel(contract as DataModelContract, context)];
+    default:
+      return [];
+  }
+}
+
+function buildDataModel(model: DataModelContract, context: SwiftContext): SwiftStruct {
+  return buildFieldStruct(pascalCase(model.modelName), contractDoc(model), model.fields, context);
+}
+
+function buildEventPayload(contract: EventContract, context: SwiftContext): SwiftStruct {
+  return buildFieldStruct(`${pascalCase(contract.eventType)}Payload`, contractDoc(contract), contract.payload || {}, context);
+}
+
+function buildApiTypes(contract: ApiContract, context: SwiftContext): SwiftDeclaration[] {
+  const baseName = pascalCase(stripIdSuffix(contract.id, ['api', 'endpoint']));
+  const declarations: SwiftDeclaration[] = [];
+
+  if (contract.requestSchema) {
+    declarations.push(buildSchemaDeclaration(
+      `${baseName}Request`,
+      contractDoc(contract),
+      contract.requestSchema,
+      contract.requestSchema,
+      context
+    ));
+  }
+
+  if (contract.responseSchema) {
+    const responseSchema = contract.responseSchema;
+    if (isStatusKeyedSchema(responseSchema)) {
+      const statuses = Object.keys(responseSchema);
+      const success = statuses.find(status => /^2/.test(status));
+      for (const status of statuses) {
+        const suffix = status === success ? '' : pascalCase(status);
+        declarations.push(buildSchemaDeclaration(
+          `${baseName}Response${suffix}`,
+          contractDoc(contract),
+          responseSchema[status],
+          responseSchema[status],
+          context
+        ));
+      }
+    } else {
+      declarations.push(buildSchemaDeclaration(
+        `${baseName}Response`,
+        contractDoc(contract),
+        responseSchema,
+        responseSchema,
+        context
+      ));
+    }
+  }
+
+  return declarations;
+}
+
+function buildFieldStruct(
+  name: string,
+  doc: string[],
+  fields: Record<string, FieldDefinition | string>,
+  context: SwiftContext
+): SwiftStruct {
+  const struct: SwiftStruct = { kind: 'struct', name, doc, properties: [], nested: [] };
+
+  for (const [key, raw] of Object.entries(fields)) {
+    const definition = normalizeFieldDefinition(raw);
+    struct.properties.push({
+      name: propertyName(key),
+      key,
+      type: fieldType(key, definition, struct, context),
+      optional: definition.required !== true,
+      description: definition.description
+    });
+  }
+
+  return struct;
+}
+
+function fieldType(key: string, definition: FieldDefinition, parent: SwiftStruct, context: SwiftContext): string {
+  const enumRule = (definition.validation || []).find(rule => rule.type === 'enum');
+  if (enumRule && Array.isArray(enumRule.value)) {
+    const declaration = buildEnum(pascalCase(key), enumRule.value, context);
+    if (declaration) {
+      parent.nested.push(declaration);
+      return declaration.name;
+    }
+  }
+
+  switch (definition.type) {
+    case 'string':
+      return 'String';
+    case 'number':
+      return 'Double';
+    case 'integer':
+      return 'Int';
+    case 'boolean':
+      return 'Bool';
+    case 'date':
+      return dateType(context);
+    case 'object': {
+      if (!definition.properties) {
+        context.usesJsonValue = true;
+        return '[String: JSONValue]';
+      }
+      const nested = buildFieldStruct(pascalCase(key), definition.description ? [definition.description] : [], definition.properties, context);
+      parent.nested.push(nested);
+      return nested.name;
+    }
+    case 'array':
+      if (!definition.items) {
+        context.usesJsonValue = true;
+        return '[JSONValue]';
+      }
+      return `[${fieldType(`${key}Item`, normalizeFieldDefinition(definition.items), parent, context)}]`;
+    default:
+      if (/^[A-Z][A-Za-z0-9]*$/.test(definition.type)) {
+        return definition.type;
+      }
+      context.usesJsonValue = true;
+      return 'JSONValue';
+  }
+}
+
+function buildSchemaDeclaration(
+  name: string,
+  doc: string[],
+  schema: any,
+  root: any,
+  context: SwiftContext
+): SwiftDeclaration {
+  const resolved = dereference(schema, root);
+  const holder: SwiftStruct = { kind: 'struct', name, doc, properties: [], nested: [] };
+
+  if (isObjectSchema(resolved, root)) {
+    return buildSchemaStruct(name, doc, resolved, root, context, new Set());
+  }
+
+  // Non-object top-level schemas are wrapped so they still get a named type
+  holder.properties.push({
+    name: 'value',
+    key: 'value',
+    type: schemaType('Value', resolved, root, holder, context, new Set()),
+    optional: false
+  });
+  return holder;
+}
+
+function buildSchemaStruct(
+  name: string,
+  doc: string[],
+  schema: any,
+  root: any,
+  context: SwiftContext,
+  resolving: Set<string>
+): SwiftStruct {
+  const struct: SwiftStruct = { kind: 'struct', name, doc, properties: [], nested: [] };
+  const { properties, required } = collectObjectProperties(schema, root);
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    const resolved = dereference(propertySchema, root);
+    struct.properties.push({
+      name: propertyName(key),
+      key,
+      type: schemaType(key, propertySchema, root, struct, context, resolving),
+      optional: !required.includes(key),
+      description: resolved?.description
+    });
+  }
+
+  return struct;
+}
+
+function schemaType(
+  key: string,
+  schema: any,
+  root: any,
+  parent: SwiftStruct,
+  context: SwiftContext,
+  resolving: Set<string>
+): string {
+  if (schema && typeof schema.$ref === 'string') {
+    if (resolving.has(schema.$ref)) {
+      context.usesJsonValue = true;
+      return 'JSONValue';
+    }
+    resolving = new Set([...resolving, schema.$ref]);
+  }
+
+  const resolved = dereference(schema, root);
+  if (!resolved || typeof resolved !== 'object') {
+    context.usesJsonValue = true;
+    return 'JSONValue';
+  }
+
+  if (Array.isArray(resolved.enum)) {
+    const declaration = buildEnum(pascalCase(key), resolved.enum, context);
+    if (declaration) {
+      parent.nested.push(declaration);
+      return declaration.name;
+    }
+  }
+
+  const types: string[] = Array.isArray(resolved.type) ? resolved.type : resolved.type ? [resolved.type] : [];
+  const nonNull = types.filter(type => type !== 'null');
+  const type = nonNull.length === 1 ? nonNull[0] : undefined;
+
+  switch (type) {
+    case 'string':
+      return resolved.format === 'date-time' ? dateType(context) : 'String';
+    case 'number':
+      return 'Double';
+    case 'integer':
+      return 'Int';
+    case 'boolean':
+      return 'Bool';
+    case 'array':
+      if (resolved.items && !Array.isArray(resolved.items)) {
+        return `[${schemaType(`${key}Item`, resolved.items, root, parent, context, resolving)}]`;
+      }
+      context.usesJsonValue = true;
+      return '[JSONValue]';
+    default:
+      if (isObjectSchema(resolved, root) && (type === 'object' || type === undefined)) {
+        const { properties } = collectObjectProperties(resolved, root);
+        if (Object.keys(properties).length > 0) {
+          const nested = buildSchemaStruct(
+            pascalCase(key),
+            resolved.description ? [resolved.description] : [],
+            resolved,
+            root,
+            context,
+            resolving
+          );
+          parent.nested.push(nested);
+          return nested.name;
+        }
+        context.usesJsonValue = true;
+        if (resolved.additionalProperties && resolved.additionalProperties !== true) {
+          return `[String: ${schemaType(`${key}Value`, resolved.additionalProperties, root, parent, context, resolving)}]`;
+        }
+        return '[String: JSONValue]';
+      }
+      context.usesJsonValue = true;
+      return 'JSONValue';
+  }
+}
+
+/**
+ * Merges `properties` and `required` across `allOf` parts
+ */
+function collectObjectProperties(schema: any, root: any): { properties: Record<string, any>; required: string[] } {
+  const properties: Record<string, any> = { ...(schema.properties || {}) };
+  const required: string[] = [...(schema.required || [])];
+
+  for (const part of schema.allOf || []) {
+    const merged = collectObjectProperties(dereference(part, root) || {}, root);
+    Object.assign(properties, merged.properties);
+    required.push(...merged.required);
+  }
+
+  return { properties, required };
+}
+
+function isObjectSchema(schema: any, root: any): boolean {
+  if (!schema || typeof schema !== 'object') {
+    return false;
+  }
+  return schema.type === 'object' ||
+    schema.properties !== undefined ||
+    (Array.isArray(schema.allOf) && schema.allOf.some((part: any) => isObjectSchema(dereference(part, root), root)));
+}
+
+function dereference(schema: any, root: any): any {
+  let current = schema;
+  for (let depth = 0; depth < 32 && current && typeof current.$ref === 'string'; depth++) {
+    current = resolveLocalRef(root, current.$ref);
+  }
+  return current;
+}
+
+function buildEnum(name: string, values: any[], context: SwiftContext): SwiftEnum | undefined {
+  const present = values.filter(value => value !== null);
+  let rawType: SwiftEnum['rawType'];
+  if (present.every(value => typeof value === 'string')) {
+    rawType = 'String';
+  } else if (present.every(value => Number.isInteger(value))) {
+    rawType = 'Int';
+  } else if (present.every(value => typeof value === 'number')) {
+    rawType = 'Double';
+  } else {
+    return undefined;
+  }
+
+  const used = new Set<string>();
+  const cases = present.map(value => {
+    let caseName = typeof value === 'string' ? camelCase(value) || 'empty' : `value${String(value).replace(/[^0-9]/g, '_')}`;
+    if (/^[0-9]/.test(caseName)) {
+      caseName = `_${caseName}`;
+    }
+    let unique = caseName;
+    for (let suffix = 2; used.has(unique); suffix++) {
+      unique = `${caseName}${suffix}`;
+    }
+    used.add(unique);
+    return { name: unique, value };
+  });
+
+  return { kind: 'enum', name, doc: [], rawType, cases };
+}
+
+function propertyName(key: string): string {
+  return camelCase(key) || 'value';
+}
+
+function escapeIdentifier(name: string): string {
+  return SWIFT_KEYWORDS.has(name) ? `\`${name}\`` : name;
+}
+
+/**
+ * Swift type for dates, recording when the ContractCoding helper is needed
+ */
+function dateType(context: SwiftContext): string {
+  if (context.options.dateType === 'String') {
+    return 'String';
+  }
+  context.usesDate = true;
+  return 'Date';
+}
+
+function contractDoc(contract: BaseContract): string[] {
+  const lines = [contract.description || contract.name, '', `Contract: ${contract.id}@${toSemanticVersion(contract.version)}`];
+  if (contract.metadata?.deprecated) {
+    lines.push(`- Warning: Deprecated${contract.metadata.deprecationReason ? `. ${contract.metadata.deprecationReason}` : ''}`);
+  }
+  return lines;
+}
+
+function renderFile(declarations: SwiftDeclaration[], context: SwiftContext): string {
+  const indent = context.options.indent ?? '    ';
+  const blocks = declarations.map(declaration => renderDeclaration(declaration, context, 0));
+  if (context.usesJsonValue) {
+    blocks.push(renderJsonValue(context));
+  }
+  if (context.usesDate) {
+    blocks.push(renderContractCoding(context));
+  }
+
+  return [
+    '// Generated by @pll/contracts. Do not edit by hand.',
+    '',
+    'import Foundation',
+    '',
+    blocks.join('\n\n'),
+    ''
+  ].join('\n').replace(/\t/g, indent);
+}
+
+function renderDeclaration(declaration: SwiftDeclaration, context: SwiftContext, depth: number): string {
+  return declaration.kind === 'struct'
+    ? renderStruct(declaration, context, depth)
+    : renderEnum(declaration, context, depth);
+}
+
+function renderStruct(struct: SwiftStruct, context: SwiftContext, depth: number): string {
+  const pad = '\t'.repeat(depth);
+  const inner = '\t'.repeat(depth + 1);
+  const access = accessPrefix(context);
+  const protocols = (context.options.protocols || ['Codable', 'Equatable']).join(', ');
+  const lines: string[] = [...renderDoc(struct.doc, pad)];
+
+  lines.push(`${pad}${access}struct ${struct.name}: ${protocols} {`);
+
+  for (const nested of struct.nested) {
+    lines.push(renderDeclaration(nested, context, depth + 1), '');
+  }
+
+  for (const property of struct.properties) {
+    lines.push(...renderDoc(property.description ? [property.description] : [], inner));
+    lines.push(`${inner}${access}let ${escapeIdentifier(property.name)}: ${property.type}${property.optional ? '?' : ''}`);
+  }
+
+  if (struct.properties.length > 0) {
+    const parameters = struct.properties.map(property =>
+      `${inner}\t${escapeIdentifier(property.name)}: ${property.type}${property.optional ? '? = nil' : ''}`
+    );
+    lines.push('');
+    lines.push(`${inner}${access}init(`);
+    lines.push(parameters.join(',\n'));
+    lines.push(`${inner}) {`);
+    for (const property of struct.properties) {
+      lines.push(`${inner}\tself.${property.name} = ${escapeIdentifier(property.name)}`);
+    }
+    lines.push(`${inner}}`);
+  } else {
+    lines.push(`${inner}${access}init() {}`);
+  }
+
+  if (struct.properties.some(property => property.name !== property.key)) {
+    lines.push('');
+    lines.push(`${inner}enum CodingKeys: String, CodingKey {`);
+    for (const property of struct.properties) {
+      const name = escapeIdentifier(property.name);
+      lines.push(property.name === property.key
+        ? `${inner}\tcase ${name}`
+        : `${inner}\tcase ${name} = ${JSON.stringify(property.key)}`);
+    }
+    lines.push(`${inner}}`);
+  }
+
+  lines.push(`${pad}}`);
+  return lines.join('\n');
+}
+
+function renderEnum(declaration: SwiftEnum, context: SwiftContext, depth: number): string {
+  const pad = '\t'.repeat(depth);
+  const inner = '\t'.repeat(depth + 1);
+  const conformances = declaration.rawType === 'String'
+    ? 'String, Codable, CaseIterable'
+    : `${declaration.rawType}, Codable, CaseIterable`;
+  const lines = [...renderDoc(declaration.doc, pad), `${pad}${accessPrefix(context)}enum ${declaration.name}: ${conformances} {`];
+
+  for (const { name, value } of declaration.cases) {
+    lines.push(`${inner}case ${escapeIdentifier(name)} = ${typeof value === 'string' ? JSON.stringify(value) : value}`);
+  }
+
+  lines.push(`${pad}}`);
+  return lines.join('\n');
+}
+
+function renderDoc(lines: string[], pad: string): string[] {
+  return lines.flatMap(line => line.split('\n')).map(line => (line ? `${pad}/// ${line}` : `${pad}///`));
+}
+
+function accessPrefix(context: SwiftContext): string {
+  return context.options.accessLevel === 'internal' ? '' : 'public ';
+}
+
+/**
+ * Coders for the ISO-8601 strings contracts use for dates. The default
+ * `.deferredToDate` strategy cannot read them, and `.iso8601` rejects the
+ * fractional seconds JavaScript writes.
+ */
+function renderContractCoding(context: SwiftContext): string {
+  const access = accessPrefix(context);
+  return `/// JSON coders for contract types, which encode dates as ISO-8601 strings
+${access}enum ContractCoding {
+	${access}static func makeDecoder() -> JSONDecoder {
+		let decoder = JSONDecoder()
+		decoder.dateDecodingStrategy = .custom { decoder in
+			let container = try decoder.singleValueContainer()
+			let text = try container.decode(String.self)
+			for formatter in dateFormatters {
+				if let date = formatter.date(from: text) {
+					return date
+				}
+			}
+			throw DecodingError.dataCorruptedError(in: container, debugDescription: "Invalid ISO-8601 date: \\(text)")
+		}
+		return decoder
+	}
+
+	${access}static func makeEncoder() -> JSONEncoder {
+		let encoder = JSONEncoder()
+		encoder.dateEncodingStrategy = .custom { date, encoder in
+			var container = encoder.singleValueContainer()
+			try container.encode(dateFormatters[0].string(from: date))
+		}
+		return encoder
+	}
+
+	private static let dateFormatters: [ISO8601DateFormatter] = {
+		let fractional = ISO8601DateFormatter()
+		fractional.formatOptions = [.withInternetDateTime, .withFractionalSeconds]
+		let dateOnly = ISO8601DateFormatter()
+		dateOnly.formatOptions = [.withFullDate]
+		return [fractional, ISO8601DateFormatter(), dateOnly]
+	}()
+}`;
+}
+
+function renderJsonValue(context: SwiftContext): string {
+  const access = accessPrefix(context);
+  return `/// Arbitrary JSON value for fields without a fixed shape
+${access}enum JSONValue: Codable, Equatable {
+\tcase string(String)
+\tcase number(Double)
+\tcase bool(Bool)
+\tcase object([String: JSONValue])
+\tcase array([JSONValue])
+\tcase null
+
+\t${access}init(from decoder: Decoder) throws {
+\t\tlet container = try decoder.singleValueContainer()
+\t\tif container.decodeNil() {
+\t\t\tself = .null
+\t\t} else if let value = try? container.decode(Bool.self) {
+\t\t\tself = .bool(value)
+\t\t} else if let value = try? container.decode(Double.self) {
+\t\t\tself = .number(value)
+\t\t} else if let value = try? container.decode(String.self) {
+\t\t\tself = .string(value)
+\t\t} else if let value = try? container.decode([JSONValue].self) {
+\t\t\tself = .array(value)
+\t\t} else {
+\t\t\tself = .object(try container.decode([String: JSONValue].self))
+\t\t}
+\t}
+
+\t${access}func encode(to encoder: Encoder) throws {
+\t\tvar container = encoder.singleValueContainer()
+\t\tswitch self {
+\t\tcase .string(let value):
+\t\t\ttry container.encode(value)
+\t\tcase .number(let value):
+\t\t\ttry container.encode(value)
+\t\tcase .bool(let value):
+\t\t\ttry container.encode(value)
+\t\tcase .object(let value):
+\t\t\ttry container.encode(value)
+\t\tcase .array(let value):
+\t\t\ttry container.encode(value)
+\t\tcase .null:
+\t\t\ttry container.encodeNil()
+\t\t}
+\t}
+}`;
+}
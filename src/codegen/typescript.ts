@@ -0,0 +1,362 @@
+/**
+ * TypeScript type generation from contracts
+ */
+
+import {
+  BaseContract,
+  Contract,
+  EventContract,
+  ApiContract,
+  DataModelContract,
+  FieldDefinition
+} from '../types';
+import { inferContractKind, toSemanticVersion } from '../utils';
+import { normalizeFieldDefinition } from '../validation/fields';
+import { resolveLocalRef } from '../validation/json-schema';
+import { isStatusKeyedSchema } from '../validation/api';
+import { pascalCase, stripIdSuffix } from './naming';
+
+/**
+ * Options for TypeScript generation
+ */
+export interface TypeScriptGeneratorOptions {
+  /** How `date` fields are typed (default 'string', ISO 8601) */
+  dateType?: 'string' | 'Date';
+  /** Emit `export` before each declaration (default true) */
+  exported?: boolean;
+  /** Indentation unit (default two spaces) */
+  indent?: string;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Generates a TypeScript module declaring the types of every given contract:
+ * record interfaces for data models, payload interfaces for events and
+ * request/response types for APIs
+ */
+export function generateTypeScriptModule(
+  contracts: Contract[],
+  options: TypeScriptGeneratorOptions = {}
+): string {
+  const declarations = contracts.map(contract => {
+    switch (inferContractKind(contract)) {
+      case 'event':
+        return generateEventPayloadType(contract as EventContract, options);
+      case 'api':
+        return generateApiTypes(contract as ApiContract, options);
+      case 'data-model':
+        return generateDataModelType(contract as DataModelContract, options);
+      default:
+        return '';
+    }
+  }).filter(Boolean);
+
+  return [
+    '/**',
+    ' * Generated by @pll/contracts. Do not edit by hand.',
+    ' */',
+    '',
+    declarations.join('\n\n'),
+    ''
+  ].join('\n');
+}
+
+/**
+ * Generates an interface for the records described by a data model contract
+ */
+export function generateDataModelType(
+  model: DataModelContract,
+  options: TypeScriptGeneratorOptions = {}
+): string {
+  return renderInterface(pascalCase(model.modelName), model, fieldMapToType(model.fields, options, 0), options);
+}
+
+/**
+ * Generates an interface for the payload of an event contract,
+ * named after the event type, e.g. `user.created` → `UserCreatedPayload`
+ */
+export function generateEventPayloadType(
+  contract: EventContract,
+  options: TypeScriptGeneratorOptions = {}
+): string {
+  const name = `${pascalCase(contract.eventType)}Payload`;
+  return renderInterface(name, contract, fieldMapToType(contract.payload || {}, options, 0), options);
+}
+
+/**
+ * Generates request and response types for an API contract, named after
+ * the contract id, e.g. `create-user-api` → `CreateUserRequest`
+ */
+export function generateApiTypes(
+  contract: ApiContract,
+  options: TypeScriptGeneratorOptions = {}
+): string {
+  const baseName = pascalCase(stripIdSuffix(contract.id, ['api', 'endpoint']));
+  const declarations: string[] = [];
+
+  if (contract.requestSchema) {
+    declarations.push(renderInterface(
+      `${baseName}Request`,
+      contract,
+      schemaToType(contract.requestSchema, contract.requestSchema, options, 0, new Set()),
+      options
+    ));
+  }
+
+  if (contract.responseSchema) {
+    const responseSchema = contract.responseSchema;
+    const type = isStatusKeyedSchema(responseSchema)
+      ? unionOf(Object.values(responseSchema).map(schema =>
+          schemaToType(schema, schema, options, 0, new Set())
+        ))
+      : schemaToType(responseSchema, responseSchema, options, 0, new Set());
+    declarations.push(renderInterface(`${baseName}Response`, contract, type, options));
+  }
+
+  return declarations.join('\n\n');
+}
+
+/**
+ * Converts a FieldDefinition map to an object type literal
+ */
+function fieldMapToType(
+  fields: Record<string, FieldDefinition | string>,
+  options: TypeScriptGeneratorOptions,
+  depth: number
+): string {
+  const members = Object.entries(fields).map(([name, raw]) => {
+    const definition = normalizeFieldDefinition(raw);
+    return renderMember(
+      name,
+      fieldToType(definition, options, depth + 1),
+      definition.required === true,
+      definition.description,
+      options,
+      depth + 1
+    );
+  });
+  return renderObject(members, options, depth);
+}
+
+function fieldToType(definition: FieldDefinition, options: TypeScriptGeneratorOptions, depth: number): string {
+  const enumRule = (definition.validation || []).find(rule => rule.type === 'enum');
+  if (enumRule && Array.isArray(enumRule.value)) {
+    return unionOf(enumRule.value.map(literal));
+  }
+
+  switch (definition.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'date':
+      return options.dateType === 'Date' ? 'Date' : 'string';
+    case 'object':
+      return definition.properties
+        ? fieldMapToType(definition.properties, options, depth)
+        : 'Record<string, unknown>';
+    case 'array':
+      return definition.items
+        ? arrayOf(fieldToType(normalizeFieldDefinition(definition.items), options, depth))
+        : 'unknown[]';
+    default:
+      // PascalCase type names refer to other generated models
+      return /^[A-Z][A-Za-z0-9]*$/.test(definition.type) ? definition.type : 'unknown';
+  }
+}
+
+/**
+ * Converts a JSON Schema to a TypeScript type expression
+ */
+function schemaToType(
+  schema: any,
+  root: any,
+  options: TypeScriptGeneratorOptions,
+  depth: number,
+  resolving: Set<string>
+): string {
+  if (schema === true || schema === undefined) return 'unknown';
+  if (schema === false) return 'never';
+
+  if (typeof schema.$ref === 'string') {
+    if (resolving.has(schema.$ref)) {
+      return 'unknown';
+    }
+    const target = resolveLocalRef(root, schema.$ref);
+    if (target === undefined) {
+      return 'unknown';
+    }
+    return schemaToType(target, root, options, depth, new Set([...resolving, schema.$ref]));
+  }
+
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return unionOf(schema.enum.map(literal));
+  }
+  if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+    const branches: any[] = schema.oneOf || schema.anyOf;
+    return unionOf(branches.map(branch => schemaToType(branch, root, options, depth, resolving)));
+  }
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part: any) => schemaToType(part, root, options, depth, resolving));
+    return parts.map((part: string) => (part.includes('|') ? `(${part})` : part)).join(' & ');
+  }
+
+  if (Array.isArray(schema.type)) {
+    return unionOf(schema.type.map((type: string) =>
+      schemaToType({ ...schema, type }, root, options, depth, resolving)
+    ));
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return schema.items && !Array.isArray(schema.items)
+        ? arrayOf(schemaToType(schema.items, root, options, depth, resolving))
+        : Array.isArray(schema.items)
+          ? `[${schema.items.map((item: any) => schemaToType(item, root, options, depth, resolving)).join(', ')}]`
+          : 'unknown[]';
+    case 'object':
+      return objectSchemaToType(schema, root, options, depth, resolving);
+    default:
+      return schema.properties ? objectSchemaToType(schema, root, options, depth, resolving) : 'unknown';
+  }
+}
+
+function objectSchemaToType(
+  schema: any,
+  root: any,
+  options: TypeScriptGeneratorOptions,
+  depth: number,
+  resolving: Set<string>
+): string {
+  const properties: Record<string, any> = schema.properties || {};
+  const required: string[] = schema.required || [];
+
+  const members = Object.entries(properties).map(([name, propertySchema]) => {
+    const resolved = typeof propertySchema?.$ref === 'string'
+      ? resolveLocalRef(root, propertySchema.$ref) || propertySchema
+      : propertySchema;
+    return renderMember(
+      name,
+      schemaToType(propertySchema, root, options, depth + 1, resolving),
+      required.includes(name),
+      resolved?.description,
+      options,
+      depth + 1
+    );
+  });
+
+  const additional = schema.additionalProperties;
+  if (additional !== undefined && additional !== false) {
+    // An index signature must accept every declared member's type as well
+    const valueType = additional === true || members.length > 0
+      ? 'unknown'
+      : schemaToType(additional, root, options, depth + 1, resolving);
+    members.push(`${indentOf(options, depth + 1)}[key: string]: ${valueType};`);
+  } else if (members.length === 0) {
+    return 'Record<string, unknown>';
+  }
+
+  return renderObject(members, options, depth);
+}
+
+function renderInterface(
+  name: string,
+  contract: BaseContract,
+  body: string,
+  options: TypeScriptGeneratorOptions
+): string {
+  const prefix = options.exported === false ? '' : 'export ';
+  const declaration = isObjectLiteral(body)
+    ? `${prefix}interface ${name} ${body}`
+    : `${prefix}type ${name} = ${body};`;
+  return `${contractDoc(contract)}\n${declaration}`;
+}
+
+/**
+ * Whether a type expression is a single object literal, which can be
+ * declared as an interface
+ */
+function isObjectLiteral(type: string): boolean {
+  if (!type.startsWith('{')) {
+    return false;
+  }
+  let depth = 0;
+  for (let i = 0; i < type.length; i++) {
+    if (type[i] === '{') depth++;
+    if (type[i] === '}') depth--;
+    if (depth === 0) {
+      return i === type.length - 1;
+    }
+  }
+  return false;
+}
+
+function renderObject(members: string[], options: TypeScriptGeneratorOptions, depth: number): string {
+  if (members.length === 0) {
+    return '{}';
+  }
+  return `{\n${members.join('\n')}\n${indentOf(options, depth)}}`;
+}
+
+function renderMember(
+  name: string,
+  type: string,
+  required: boolean,
+  description: string | undefined,
+  options: TypeScriptGeneratorOptions,
+  depth: number
+): string {
+  const indent = indentOf(options, depth);
+  const key = IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+  const doc = description ? `${indent}${jsDoc([description], indent)}\n` : '';
+  return `${doc}${indent}${key}${required ? '' : '?'}: ${type};`;
+}
+
+function contractDoc(contract: BaseContract): string {
+  const lines = [contract.description || contract.name, '', `Contract: ${contract.id}@${toSemanticVersion(contract.version)}`];
+  if (contract.metadata?.deprecated) {
+    lines.push(`@deprecated${contract.metadata.deprecationReason ? ` ${contract.metadata.deprecationReason}` : ''}`);
+  }
+  return jsDoc(lines, '');
+}
+
+function jsDoc(lines: string[], indent: string): string {
+  const escaped = lines.flatMap(line => line.split('\n')).map(line => line.replace(/\*\//g, '*\\/'));
+  if (escaped.length === 1) {
+    return `/** ${escaped[0]} */`;
+  }
+  return ['/**', ...escaped.map(line => (line ? ` * ${line}` : ' *')), ' */'].join(`\n${indent}`);
+}
+
+function indentOf(options: TypeScriptGeneratorOptions, depth: number): string {
+  return (options.indent ?? '  ').repeat(depth);
+}
+
+function literal(value: any): string {
+  return value === null ? 'null' : JSON.stringify(value);
+}
+
+function unionOf(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length === 0 ? 'never' : unique.join(' | ');
+}
+
+function arrayOf(type: string): string {
+  return /^[A-Za-z0-9_$.<>]+$/.test(type) ? `${type}[]` : `Array<${type}>`;
+}
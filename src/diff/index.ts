@@ -0,0 +1,1059 @@
+/**
+ * Structural diffing of contract versions with breaking-change classification
+ */
+
+import {
+  Contract,
+  ContractVersion,
+  EventContract,
+  ApiContract,
+  DataModelContract,
+  FieldDefinition,
+  ForeignKey,
+  ValidationRule
+} from '../types';
+import { compareVersions, inferContractKind, toSemanticVersion } from '../utils';
+import { jsonEquals, joinPath, resolveLocalRef } from '../validation/json-schema';
+import { isStatusKeyedSchema } from '../validation/api';
+import { normalizeFieldDefinition } from '../validation/fields';
+
+/**
+ * How a change affects existing producers and consumers
+ */
+export type ChangeSeverity = 'breaking' | 'additive' | 'cosmetic';
+
+/**
+ * Semantic version component that has to be bumped
+ */
+export type VersionBump = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * Kinds of detected changes
+ */
+export type ChangeType =
+  | 'kind-changed'
+  | 'id-changed'
+  | 'name-changed'
+  | 'description-changed'
+  | 'metadata-changed'
+  | 'deprecated'
+  | 'undeprecated'
+  | 'field-added'
+  | 'field-removed'
+  | 'type-changed'
+  | 'required-added'
+  | 'required-removed'
+  | 'default-changed'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'constraint-tightened'
+  | 'constraint-relaxed'
+  | 'event-type-changed'
+  | 'event-metadata-changed'
+  | 'method-changed'
+  | 'path-changed'
+  | 'request-schema-added'
+  | 'request-schema-removed'
+  | 'response-schema-added'
+  | 'response-schema-removed'
+  | 'auth-type-changed'
+  | 'auth-scopes-added'
+  | 'auth-scopes-removed'
+  | 'auth-optional-changed'
+  | 'model-name-changed'
+  | 'unique-added'
+  | 'unique-removed'
+  | 'index-added'
+  | 'index-removed'
+  | 'foreign-key-added'
+  | 'foreign-key-removed'
+  | 'foreign-key-changed';
+
+/**
+ * A single detected change between two contract versions
+ */
+export interface ContractChange {
+  /** Change type */
+  type: ChangeType;
+  /** Path of the changed element, e.g. `payload.profile.firstName` */
+  path: string;
+  /** Impact classification */
+  severity: ChangeSeverity;
+  /** Human-readable description */
+  message: string;
+  /** Value before the change */
+  before?: any;
+  /** Value after the change */
+  after?: any;
+}
+
+/**
+ * Result of diffing two contract versions
+ */
+export interface ContractDiff {
+  /** Every detected change */
+  changes: ContractChange[];
+  /** Whether any change is breaking */
+  breaking: boolean;
+  /** Minimum version bump the changes require */
+  requiredBump: VersionBump;
+  /** Version bump actually made between the two contracts */
+  actualBump: VersionBump;
+  /** Whether the new version is large enough for the changes */
+  versionSufficient: boolean;
+  /** Smallest version the new contract may declare */
+  minimumVersion: ContractVersion;
+}
+
+/**
+ * Which side of a data flow a schema describes. Tightening an input breaks
+ * senders, loosening an output breaks receivers, and shared definitions
+ * (event payloads, stored models) break on both.
+ */
+type Direction = 'input' | 'output' | 'both';
+
+const BUMP_RANK: Record<VersionBump, number> = { none: 0, patch: 1, minor: 2, major: 3 };
+
+/**
+ * JSON Schema keywords that restrict the accepted values
+ */
+const CONSTRAINT_KEYWORDS = [
+  'minLength', 'maxLength', 'pattern', 'format', 'minimum', 'maximum',
+  'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'minItems', 'maxItems',
+  'uniqueItems', 'minProperties', 'maxProperties', 'const', 'additionalProperties'
+];
+
+/**
+ * Constraints that set a lower or upper bound; moving the bound outwards
+ * relaxes them. `min` and `max` are the FieldDefinition validation rules.
+ */
+const LOWER_BOUNDS = ['minLength', 'minimum', 'exclusiveMinimum', 'minItems', 'minProperties', 'min'];
+const UPPER_BOUNDS = ['maxLength', 'maximum', 'exclusiveMaximum', 'maxItems', 'maxProperties', 'max'];
+
+/**
+ * Diffs two versions of a contract, classifies each change and works out
+ * the minimum version bump: breaking changes need a major bump, additive
+ * changes a minor bump and cosmetic changes a patch bump.
+ */
+export function diffContracts(oldContract: Contract, newContract: Contract): ContractDiff {
+  const changes: ContractChange[] = [];
+  const oldKind = inferContractKind(oldContract);
+  const newKind = inferContractKind(newContract);
+
+  diffBase(oldContract, newContract, changes);
+
+  if (oldKind !== newKind) {
+    changes.push({
+      type: 'kind-changed',
+      path: '',
+      severity: 'breaking',
+      message: `Contract kind changed from ${oldKind} to ${newKind}`,
+      before: oldKind,
+      after: newKind
+    });
+  } else if (oldKind === 'event') {
+    diffEventContracts(oldContract as EventContract, newContract as EventContract, changes);
+  } else if (oldKind === 'api') {
+    diffApiContracts(oldContract as ApiContract, newContract as ApiContract, changes);
+  } else if (oldKind === 'data-model') {
+    diffDataModelContracts(oldContract as DataModelContract, newContract as DataModelContract, changes);
+  }
+
+  const requiredBump = getRequiredBump(changes);
+  const actualBump = getVersionBump(oldContract.version, newContract.version);
+  const minimumVersion = bumpVersion(oldContract.version, requiredBump);
+
+  return {
+    changes,
+    breaking: changes.some(change => change.severity === 'breaking'),
+    requiredBump,
+    actualBump,
+    versionSufficient: compareVersions(newContract.version, minimumVersion) >= 0,
+    minimumVersion
+  };
+}
+
+/**
+ * Returns the minimum version bump for a set of changes
+ */
+export function getRequiredBump(changes: ContractChange[]): VersionBump {
+  if (changes.some(change => change.severity === 'breaking')) return 'major';
+  if (changes.some(change => change.severity === 'additive')) return 'minor';
+  if (changes.length > 0) return 'patch';
+  return 'none';
+}
+
+/**
+ * Returns which version component was bumped between two versions,
+ * or `none` when the new version is not greater
+ */
+export function getVersionBump(oldVersion: ContractVersion, newVersion: ContractVersion): VersionBump {
+  if (compareVersions(newVersion, oldVersion) <= 0) return 'none';
+  if (newVersion.major > oldVersion.major) return 'major';
+  if (newVersion.major === oldVersion.major && newVersion.minor > oldVersion.minor) return 'minor';
+  return 'patch';
+}
+
+/**
+ * Applies a bump to a version, dropping prerelease and build metadata
+ */
+export function bumpVersion(version: ContractVersion, bump: VersionBump): ContractVersion {
+  switch (bump) {
+    case 'major':
+      return { major: version.major + 1, minor: 0, patch: 0 };
+    case 'minor':
+      return { major: version.major, minor: version.minor + 1, patch: 0 };
+    case 'patch':
+      // Releasing a prerelease already counts as the patch bump
+      return version.prerelease
+        ? { major: version.major, minor: version.minor, patch: version.patch }
+        : { major: version.major, minor: version.minor, patch: version.patch + 1 };
+    default:
+      return { ...version };
+  }
+}
+
+/**
+ * Whether the actual bump between two versions covers a required bump
+ */
+export function isBumpSufficient(actual: VersionBump, required: VersionBump): boolean {
+  return BUMP_RANK[actual] >= BUMP_RANK[required];
+}
+
+function diffBase(oldContract: Contract, newContract: Contract, changes: ContractChange[]): void {
+  if (oldContract.id !== newContract.id) {
+    changes.push({
+      type: 'id-changed',
+      path: 'id',
+      severity: 'breaking',
+      message: `Contract id changed from '${oldContract.id}' to '${newContract.id}'`,
+      before: oldContract.id,
+      after: newContract.id
+    });
+  }
+  if (oldContract.name !== newContract.name) {
+    changes.push({
+      type: 'name-changed',
+      path: 'name',
+      severity: 'cosmetic',
+      message: 'Contract name changed',
+      before: oldContract.name,
+      after: newContract.name
+    });
+  }
+  if (oldContract.description !== newContract.description) {
+    changes.push({
+      type: 'description-changed',
+      path: 'description',
+      severity: 'cosmetic',
+      message: 'Contract description changed',
+      before: oldContract.description,
+      after: newContract.description
+    });
+  }
+
+  const oldMetadata = oldContract.metadata || {};
+  const newMetadata = newContract.metadata || {};
+  const wasDeprecated = oldMetadata.deprecated === true;
+  const isDeprecated = newMetadata.deprecated === true;
+
+  if (!wasDeprecated && isDeprecated) {
+    changes.push({
+      type: 'deprecated',
+      path: 'metadata.deprecated',
+      severity: 'additive',
+      message: 'Contract was deprecated',
+      before: false,
+      after: true
+    });
+  } else if (wasDeprecated && !isDeprecated) {
+    changes.push({
+      type: 'undeprecated',
+      path: 'metadata.deprecated',
+      severity: 'additive',
+      message: 'Contract is no longer deprecated',
+      before: true,
+      after: false
+    });
+  }
+
+  for (const key of ['author', 'tags', 'documentationUrl', 'deprecationReason'] as const) {
+    if (!jsonEquals(oldMetadata[key], newMetadata[key])) {
+      changes.push({
+        type: 'metadata-changed',
+        path: joinPath('metadata', key),
+        severity: 'cosmetic',
+        message: `Metadata '${key}' changed`,
+        before: oldMetadata[key],
+        after: newMetadata[key]
+      });
+    }
+  }
+}
+
+function diffEventContracts(oldContract: EventContract, newContract: EventContract, changes: ContractChange[]): void {
+  if (oldContract.eventType !== newContract.eventType) {
+    changes.push({
+      type: 'event-type-changed',
+      path: 'eventType',
+      severity: 'breaking',
+      message: `Event type changed from '${oldContract.eventType}' to '${newContract.eventType}'`,
+      before: oldContract.eventType,
+      after: newContract.eventType
+    });
+  }
+
+  diffFieldMaps(oldContract.payload || {}, newContract.payload || {}, 'payload', 'both', changes, false);
+
+  const oldMetadata: Record<string, any> = oldContract.eventMetadata || {};
+  const newMetadata: Record<string, any> = newContract.eventMetadata || {};
+  for (const key of ['priority', 'category', 'persistent', 'ttl']) {
+    if (!jsonEquals(oldMetadata[key], newMetadata[key])) {
+      changes.push({
+        type: 'event-metadata-changed',
+        path: joinPath('eventMetadata', key),
+        severity: 'additive',
+        message: `Event metadata '${key}' changed`,
+        before: oldMetadata[key],
+        after: newMetadata[key]
+      });
+    }
+  }
+}
+
+function diffApiContracts(oldContract: ApiContract, newContract: ApiContract, changes: ContractChange[]): void {
+  if (oldContract.method !== newContract.method) {
+    changes.push({
+      type: 'method-changed',
+      path: 'method',
+      severity: 'breaking',
+      message: `HTTP method changed from ${oldContract.method} to ${newContract.method}`,
+      before: oldContract.method,
+      after: newContract.method
+    });
+  }
+  if (oldContract.path !== newContract.path) {
+    changes.push({
+      type: 'path-changed',
+      path: 'path',
+      severity: 'breaking',
+      message: `Path changed from ${oldContract.path} to ${newContract.path}`,
+      before: oldContract.path,
+      after: newContract.path
+    });
+  }
+
+  diffOptionalSchema(oldContract.requestSchema, newContract.requestSchema, 'requestSchema', 'input', changes);
+  diffOptionalSchema(oldContract.responseSchema, newContract.responseSchema, 'responseSchema', 'output', changes);
+  diffAuth(oldContract, newContract, changes);
+}
+
+function diffOptionalSchema(
+  oldSchema: Record<string, any> | undefined,
+  newSchema: Record<string, any> | undefined,
+  path: 'requestSchema' | 'responseSchema',
+  direction: Direction,
+  changes: ContractChange[]
+): void {
+  const label = path === 'requestSchema' ? 'request' : 'response';
+
+  if (!oldSchema && newSchema) {
+    changes.push({
+      type: `${label}-schema-added` as ChangeType,
+      path,
+      severity: direction === 'input' ? 'breaking' : 'additive',
+      message: `A ${label} schema was added`,
+      after: newSchema
+    });
+    return;
+  }
+  if (oldSchema && !newSchema) {
+    changes.push({
+      type: `${label}-schema-removed` as ChangeType,
+      path,
+      severity: direction === 'input' ? 'additive' : 'breaking',
+      message: `The ${label} schema was removed`,
+      before: oldSchema
+    });
+    return;
+  }
+  if (!oldSchema || !newSchema) {
+    return;
+  }
+
+  if (path === 'responseSchema' && (isStatusKeyedSchema(oldSchema) || isStatusKeyedSchema(newSchema))) {
+    const oldByStatus = isStatusKeyedSchema(oldSchema) ? oldSchema : { '2XX': oldSchema };
+    const newByStatus = isStatusKeyedSchema(newSchema) ? newSchema : { '2XX': newSchema };
+    const statuses = new Set([...Object.keys(oldByStatus), ...Object.keys(newByStatus)]);
+    for (const status of statuses) {
+      const statusPath = joinPath(path, status);
+      if (!oldByStatus[status]) {
+        changes.push({
+          type: 'response-schema-added',
+          path: statusPath,
+          severity: 'additive',
+          message: `A response schema for status ${status} was added`,
+          after: newByStatus[status]
+        });
+      } else if (!newByStatus[status]) {
+        changes.push({
+          type: 'response-schema-removed',
+          path: statusPath,
+          severity: 'breaking',
+          message: `The response schema for status ${status} was removed`,
+          before: oldByStatus[status]
+        });
+      } else {
+        diffSchemas(
+          { root: oldByStatus[status], schema: oldByStatus[status] },
+          { root: newByStatus[status], schema: newByStatus[status] },
+          statusPath,
+          direction,
+          changes
+        );
+      }
+    }
+    return;
+  }
+
+  diffSchemas({ root: oldSchema, schema: oldSchema }, { root: newSchema, schema: newSchema }, path, direction, changes);
+}
+
+function diffAuth(oldContract: ApiContract, newContract: ApiContract, changes: ContractChange[]): void {
+  const oldType = oldContract.auth?.type || 'none';
+  const newType = newContract.auth?.type || 'none';
+
+  if (oldType !== newType) {
+    changes.push({
+      type: 'auth-type-changed',
+      path: 'auth.type',
+      severity: newType === 'none' ? 'additive' : 'breaking',
+      message: `Authentication changed from ${oldType} to ${newType}`,
+      before: oldType,
+      after: newType
+    });
+  }
+
+  const oldScopes = oldContract.auth?.scopes || [];
+  const newScopes = newContract.auth?.scopes || [];
+  const addedScopes = newScopes.filter(scope => !oldScopes.includes(scope));
+  const removedScopes = oldScopes.filter(scope => !newScopes.includes(scope));
+
+  if (addedScopes.length > 0) {
+    changes.push({
+      type: 'auth-scopes-added',
+      path: 'auth.scopes',
+      severity: 'breaking',
+      message: `Required scopes added: ${addedScopes.join(', ')}`,
+      before: oldScopes,
+      after: newScopes
+    });
+  }
+  if (removedScopes.length > 0) {
+    changes.push({
+      type: 'auth-scopes-removed',
+      path: 'auth.scopes',
+      severity: 'additive',
+      message: `Required scopes removed: ${removedScopes.join(', ')}`,
+      before: oldScopes,
+      after: newScopes
+    });
+  }
+
+  const wasOptional = oldContract.auth?.optional === true;
+  const isOptional = newContract.auth?.optional === true;
+  if (wasOptional !== isOptional && oldType !== 'none' && newType !== 'none') {
+    changes.push({
+      type: 'auth-optional-changed',
+      path: 'auth.optional',
+      severity: isOptional ? 'additive' : 'breaking',
+      message: isOptional ? 'Authentication became optional' : 'Authentication became mandatory',
+      before: wasOptional,
+      after: isOptional
+    });
+  }
+}
+
+function diffDataModelContracts(
+  oldContract: DataModelContract,
+  newContract: DataModelContract,
+  changes: ContractChange[]
+): void {
+  if (oldContract.modelName !== newContract.modelName) {
+    changes.push({
+      type: 'model-name-changed',
+      path: 'modelName',
+      severity: 'breaking',
+      message: `Model name changed from ${oldContract.modelName} to ${newContract.modelName}`,
+      before: oldContract.modelName,
+      after: newContract.modelName
+    });
+  }
+
+  diffFieldMaps(oldContract.fields || {}, newContract.fields || {}, 'fields', 'both', changes, true);
+
+  const oldConstraints = oldContract.constraints || {};
+  const newConstraints = newContract.constraints || {};
+
+  diffNameList(oldConstraints.unique || [], newConstraints.unique || [], 'constraints.unique', changes, {
+    added: ['unique-added', 'breaking', name => `Unique constraint added on '${name}'`],
+    removed: ['unique-removed', 'additive', name => `Unique constraint removed from '${name}'`]
+  });
+  diffNameList(oldConstraints.indexes || [], newConstraints.indexes || [], 'constraints.indexes', changes, {
+    added: ['index-added', 'cosmetic', name => `Index added on '${name}'`],
+    removed: ['index-removed', 'cosmetic', name => `Index removed from '${name}'`]
+  });
+
+  const oldKeys = new Map((oldConstraints.foreignKeys || []).map(key => [key.field, key]));
+  const newKeys = new Map((newConstraints.foreignKeys || []).map(key => [key.field, key]));
+  const path = 'constraints.foreignKeys';
+
+  for (const [field, newKey] of newKeys) {
+    const oldKey = oldKeys.get(field);
+    if (!oldKey) {
+      changes.push({
+        type: 'foreign-key-added',
+        path: joinPath(path, field),
+        severity: 'breaking',
+        message: `Foreign key added on '${field}' referencing ${describeForeignKey(newKey)}`,
+        after: newKey
+      });
+    } else if (!jsonEquals(oldKey, newKey)) {
+      changes.push({
+        type: 'foreign-key-changed',
+        path: joinPath(path, field),
+        severity: 'breaking',
+        message: `Foreign key on '${field}' changed from ${describeForeignKey(oldKey)} to ${describeForeignKey(newKey)}`,
+        before: oldKey,
+        after: newKey
+      });
+    }
+  }
+  for (const [field, oldKey] of oldKeys) {
+    if (!newKeys.has(field)) {
+      changes.push({
+        type: 'foreign-key-removed',
+        path: joinPath(path, field),
+        severity: 'additive',
+        message: `Foreign key on '${field}' referencing ${describeForeignKey(oldKey)} was removed`,
+        before: oldKey
+      });
+    }
+  }
+}
+
+function describeForeignKey(key: ForeignKey): string {
+  const actions = [
+    key.onDelete ? `on delete ${key.onDelete}` : '',
+    key.onUpdate ? `on update ${key.onUpdate}` : ''
+  ].filter(Boolean);
+  return `${key.references}.${key.referencedField}${actions.length ? ` (${actions.join(', ')})` : ''}`;
+}
+
+function diffNameList(
+  oldNames: string[],
+  newNames: string[],
+  path: string,
+  changes: ContractChange[],
+  kinds: {
+    added: [ChangeType, ChangeSeverity, (name: string) => string];
+    removed: [ChangeType, ChangeSeverity, (name: string) => string];
+  }
+): void {
+  for (const name of newNames.filter(name => !oldNames.includes(name))) {
+    const [type, severity, message] = kinds.added;
+    changes.push({ type, path: joinPath(path, name), severity, message: message(name), after: name });
+  }
+  for (const name of oldNames.filter(name => !newNames.includes(name))) {
+    const [type, severity, message] = kinds.removed;
+    changes.push({ type, path: joinPath(path, name), severity, message: message(name), before: name });
+  }
+}
+
+/**
+ * Severity of a change that narrows the accepted values
+ */
+function narrowingSeverity(direction: Direction): ChangeSeverity {
+  return direction === 'output' ? 'additive' : 'breaking';
+}
+
+/**
+ * Severity of a change that widens the accepted values
+ */
+function wideningSeverity(direction: Direction): ChangeSeverity {
+  return direction === 'input' ? 'additive' : 'breaking';
+}
+
+function diffFieldMaps(
+  oldFields: Record<string, FieldDefinition | string>,
+  newFields: Record<string, FieldDefinition | string>,
+  path: string,
+  direction: Direction,
+  changes: ContractChange[],
+  defaultsFillRequired: boolean
+): void {
+  for (const [name, rawDefinition] of Object.entries(newFields)) {
+    const fieldPath = joinPath(path, name);
+    const definition = normalizeFieldDefinition(rawDefinition);
+
+    if (!(name in oldFields)) {
+      const required = definition.required === true &&
+        !(defaultsFillRequired && definition.default !== undefined);
+      changes.push({
+        type: 'field-added',
+        path: fieldPath,
+        severity: required ? narrowingSeverity(direction) : 'additive',
+        message: `${required ? 'Required' : 'Optional'} field '${fieldPath}' was added`,
+        after: rawDefinition
+      });
+      continue;
+    }
+
+    diffFieldDefinitions(normalizeFieldDefinition(oldFields[name]), definition, fieldPath, direction, changes, defaultsFillRequired);
+  }
+
+  for (const [name, rawDefinition] of Object.entries(oldFields)) {
+    if (!(name in newFields)) {
+      const fieldPath = joinPath(path, name);
+      changes.push({
+        type: 'field-removed',
+        path: fieldPath,
+        severity: 'breaking',
+        message: `Field '${fieldPath}' was removed`,
+        before: rawDefinition
+      });
+    }
+  }
+}
+
+function diffFieldDefinitions(
+  oldField: FieldDefinition,
+  newField: FieldDefinition,
+  path: string,
+  direction: Direction,
+  changes: ContractChange[],
+  defaultsFillRequired: boolean
+): void {
+  if (oldField.type !== newField.type) {
+    changes.push({
+      type: 'type-changed',
+      path,
+      severity: 'breaking',
+      message: `Field '${path}' changed type from ${oldField.type} to ${newField.type}`,
+      before: oldField.type,
+      after: newField.type
+    });
+    return;
+  }
+
+  const wasRequired = oldField.required === true;
+  const isRequired = newField.required === true;
+  if (!wasRequired && isRequired) {
+    const filled = defaultsFillRequired && newField.default !== undefined;
+    changes.push({
+      type: 'required-added',
+      path,
+      severity: filled ? 'additive' : narrowingSeverity(direction),
+      message: `Field '${path}' became required`,
+      before: false,
+      after: true
+    });
+  } else if (wasRequired && !isRequired) {
+    changes.push({
+      type: 'required-removed',
+      path,
+      severity: wideningSeverity(direction),
+      message: `Field '${path}' became optional`,
+      before: true,
+      after: false
+    });
+  }
+
+  if (!jsonEquals(oldField.default, newField.default)) {
+    changes.push({
+      type: 'default-changed',
+      path,
+      severity: 'additive',
+      message: `Default value of '${path}' changed`,
+      before: oldField.default,
+      after: newField.default
+    });
+  }
+
+  if (oldField.description !== newField.description) {
+    changes.push({
+      type: 'description-changed',
+      path,
+      severity: 'cosmetic',
+      message: `Description of '${path}' changed`,
+      before: oldField.description,
+      after: newField.description
+    });
+  }
+
+  diffValidationRules(oldField.validation || [], newField.validation || [], path, direction, changes);
+
+  if (oldField.properties || newField.properties) {
+    diffFieldMaps(oldField.properties || {}, newField.properties || {}, path, direction, changes, defaultsFillRequired);
+  }
+  if (oldField.items && newField.items) {
+    diffFieldDefinitions(
+      normalizeFieldDefinition(oldField.items),
+      normalizeFieldDefinition(newField.items),
+      joinPath(path, 'items'),
+      direction,
+      changes,
+      defaultsFillRequired
+    );
+  }
+}
+
+function diffValidationRules(
+  oldRules: ValidationRule[],
+  newRules: ValidationRule[],
+  path: string,
+  direction: Direction,
+  changes: ContractChange[]
+): void {
+  const oldEnum = oldRules.find(rule => rule.type === 'enum');
+  const newEnum = newRules.find(rule => rule.type === 'enum');
+  diffEnums(oldEnum?.value, newEnum?.value, path, direction, changes);
+
+  const oldOther = oldRules.filter(rule => rule.type !== 'enum').map(({ type, value }) => ({ type, value }));
+  const newOther = newRules.filter(rule => rule.type !== 'enum').map(({ type, value }) => ({ type, value }));
+  let added = newOther.filter(rule => !oldOther.some(existing => jsonEquals(existing, rule)));
+  let removed = oldOther.filter(rule => !newOther.some(existing => jsonEquals(existing, rule)));
+
+  // A moved min/max bound is one change, tightening or relaxing by direction
+  const loosened: string[] = [];
+  for (const rule of [...added]) {
+    const previous = removed.find(existing => existing.type === rule.type);
+    const change = previous && boundChange(rule.type, previous.value, rule.value);
+    if (change === 'relaxed') {
+      loosened.push(rule.type);
+      added = added.filter(other => other !== rule);
+      removed = removed.filter(other => other !== previous);
+    } else if (change === 'tightened') {
+      removed = removed.filter(other => other !== previous);
+    }
+  }
+
+  if (added.length > 0) {
+    changes.push({
+      type: 'constraint-tightened',
+      path,
+      severity: narrowingSeverity(direction),
+      message: `Validation rules on '${path}' were added or changed: ${added.map(rule => rule.type).join(', ')}`,
+      before: oldRules,
+      after: newRules
+    });
+  }
+  if (loosened.length > 0 || (added.length === 0 && removed.length > 0)) {
+    const relaxed = [...loosened, ...(added.length === 0 ? removed.map(rule => rule.type) : [])];
+    changes.push({
+      type: 'constraint-relaxed',
+      path,
+      severity: wideningSeverity(direction),
+      message: `Validation rules on '${path}' were removed or loosened: ${relaxed.join(', ')}`,
+      before: oldRules,
+      after: newRules
+    });
+  }
+}
+
+/**
+ * Whether moving a min/max bound from one value to another tightens or
+ * relaxes it. Values are numbers, or date strings for date fields;
+ * `undefined` for other constraints or values that cannot be compared.
+ */
+function boundChange(keyword: string, oldValue: any, newValue: any): 'tightened' | 'relaxed' | undefined {
+  const before = comparableBound(oldValue);
+  const after = comparableBound(newValue);
+  if (before === undefined || after === undefined) {
+    return undefined;
+  }
+  if (LOWER_BOUNDS.includes(keyword)) {
+    return after > before ? 'tightened' : 'relaxed';
+  }
+  if (UPPER_BOUNDS.includes(keyword)) {
+    return after < before ? 'tightened' : 'relaxed';
+  }
+  return undefined;
+}
+
+function comparableBound(value: any): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return isNaN(time) ? undefined : time;
+}
+
+function diffEnums(
+  oldValues: any[] | undefined,
+  newValues: any[] | undefined,
+  path: string,
+  direction: Direction,
+  changes: ContractChange[]
+): void {
+  if (!oldValues && !newValues) {
+    return;
+  }
+
+  // A missing enum accepts every value
+  const removed = oldValues
+    ? newValues ? oldValues.filter(value => !newValues.some(other => jsonEquals(other, value))) : []
+    : ['*'];
+  const added = newValues
+    ? oldValues ? newValues.filter(value => !oldValues.some(other => jsonEquals(other, value))) : []
+    : ['*'];
+
+  if (oldValues && (!newValues || added.length > 0)) {
+    changes.push({
+      type: 'enum-widened',
+      path,
+      severity: wideningSeverity(direction),
+      message: newValues
+        ? `Allowed values of '${path}' were extended with: ${added.join(', ')}`
+        : `Allowed values of '${path}' are no longer restricted`,
+      before: oldValues,
+      after: newValues
+    });
+  }
+  if (newValues && (!oldValues || removed.length > 0)) {
+    changes.push({
+      type: 'enum-narrowed',
+      path,
+      severity: narrowingSeverity(direction),
+      message: oldValues
+        ? `Allowed values of '${path}' no longer include: ${removed.join(', ')}`
+        : `Allowed values of '${path}' were restricted to: ${newValues.join(', ')}`,
+      before: oldValues,
+      after: newValues
+    });
+  }
+}
+
+/**
+ * A schema node together with the document its `$ref`s resolve against
+ */
+interface SchemaNode {
+  root: any;
+  schema: any;
+}
+
+function diffSchemas(
+  oldNode: SchemaNode,
+  newNode: SchemaNode,
+  path: string,
+  direction: Direction,
+  changes: ContractChange[],
+  seen: Set<string> = new Set()
+): void {
+  const oldSchema = dereference(oldNode);
+  const newSchema = dereference(newNode);
+  if (!isSchemaObject(oldSchema) || !isSchemaObject(newSchema)) {
+    return;
+  }
+
+  // Guard against recursive $refs
+  const key = `${path}|${oldNode.schema?.$ref || ''}|${newNode.schema?.$ref || ''}`;
+  if (seen.has(key)) {
+    return;
+  }
+  seen.add(key);
+
+  if (!jsonEquals(normalizeType(oldSchema.type), normalizeType(newSchema.type))) {
+    changes.push({
+      type: 'type-changed',
+      path,
+      severity: 'breaking',
+      message: `'${path}' changed type from ${formatType(oldSchema.type)} to ${formatType(newSchema.type)}`,
+      before: oldSchema.type,
+      after: newSchema.type
+    });
+    return;
+  }
+
+  diffEnums(oldSchema.enum, newSchema.enum, path, direction, changes);
+
+  const changed = CONSTRAINT_KEYWORDS.filter(keyword =>
+    newSchema[keyword] !== undefined && !jsonEquals(oldSchema[keyword], newSchema[keyword])
+  );
+  const loosened = changed.filter(keyword =>
+    oldSchema[keyword] !== undefined && boundChange(keyword, oldSchema[keyword], newSchema[keyword]) === 'relaxed'
+  );
+  const tightened = changed.filter(keyword => !loosened.includes(keyword));
+  const relaxed = [
+    ...CONSTRAINT_KEYWORDS.filter(keyword => oldSchema[keyword] !== undefined && newSchema[keyword] === undefined),
+    ...loosened
+  ];
+  if (tightened.length > 0) {
+    changes.push({
+      type: 'constraint-tightened',
+      path,
+      severity: narrowingSeverity(direction),
+      message: `Constraints on '${path}' were added or changed: ${tightened.join(', ')}`,
+      before: pick(oldSchema, tightened),
+      after: pick(newSchema, tightened)
+    });
+  }
+  if (relaxed.length > 0) {
+    changes.push({
+      type: 'constraint-relaxed',
+      path,
+      severity: wideningSeverity(direction),
+      message: `Constraints on '${path}' were removed or loosened: ${relaxed.join(', ')}`,
+      before: pick(oldSchema, relaxed),
+      after: pick(newSchema, relaxed)
+    });
+  }
+
+  if (oldSchema.description !== newSchema.description && path) {
+    changes.push({
+      type: 'description-changed',
+      path,
+      severity: 'cosmetic',
+      message: `Description of '${path}' changed`,
+      before: oldSchema.description,
+      after: newSchema.description
+    });
+  }
+
+  const oldProperties: Record<string, any> = oldSchema.properties || {};
+  const newProperties: Record<string, any> = newSchema.properties || {};
+  const oldRequired: string[] = oldSchema.required || [];
+  const newRequired: string[] = newSchema.required || [];
+
+  for (const name of Object.keys(newProperties)) {
+    const propertyPath = joinPath(path, name);
+    if (!(name in oldProperties)) {
+      const required = newRequired.includes(name);
+      changes.push({
+        type: 'field-added',
+        path: propertyPath,
+        severity: required ? narrowingSeverity(direction) : 'additive',
+        message: `${required ? 'Required' : 'Optional'} field '${propertyPath}' was added`,
+        after: newProperties[name]
+      });
+      continue;
+    }
+
+    if (!oldRequired.includes(name) && newRequired.includes(name)) {
+      changes.push({
+        type: 'required-added',
+        path: propertyPath,
+        severity: narrowingSeverity(direction),
+        message: `Field '${propertyPath}' became required`,
+        before: false,
+        after: true
+      });
+    } else if (oldRequired.includes(name) && !newRequired.includes(name)) {
+      changes.push({
+        type: 'required-removed',
+        path: propertyPath,
+        severity: wideningSeverity(direction),
+        message: `Field '${propertyPath}' became optional`,
+        before: true,
+        after: false
+      });
+    }
+
+    diffSchemas(
+      { root: oldNode.root, schema: oldProperties[name] },
+      { root: newNode.root, schema: newProperties[name] },
+      propertyPath,
+      direction,
+      changes,
+      seen
+    );
+  }
+
+  for (const name of Object.keys(oldProperties)) {
+    if (!(name in newProperties)) {
+      const propertyPath = joinPath(path, name);
+      changes.push({
+        type: 'field-removed',
+        path: propertyPath,
+        severity: 'breaking',
+        message: `Field '${propertyPath}' was removed`,
+        before: oldProperties[name]
+      });
+    }
+  }
+
+  // Required entries for properties that are not declared in `properties`
+  for (const name of newRequired.filter(name => !oldRequired.includes(name) && !(name in newProperties))) {
+    const propertyPath = joinPath(path, name);
+    changes.push({
+      type: 'required-added',
+      path: propertyPath,
+      severity: narrowingSeverity(direction),
+      message: `Field '${propertyPath}' became required`,
+      before: false,
+      after: true
+    });
+  }
+
+  if (isSchemaObject(oldSchema.items) && isSchemaObject(newSchema.items)) {
+    diffSchemas(
+      { root: oldNode.root, schema: oldSchema.items },
+      { root: newNode.root, schema: newSchema.items },
+      joinPath(path, 'items'),
+      direction,
+      changes,
+      seen
+    );
+  }
+}
+
+function dereference(node: SchemaNode): any {
+  let schema = node.schema;
+  // Follow chains of $refs, giving up on unresolvable or circular ones
+  for (let depth = 0; depth < 32 && isSchemaObject(schema) && typeof schema.$ref === 'string'; depth++) {
+    schema = resolveLocalRef(node.root, schema.$ref);
+  }
+  return schema;
+}
+
+function isSchemaObject(schema: any): boolean {
+  return schema !== null && typeof schema === 'object' && !Array.isArray(schema);
+}
+
+function normalizeType(type: string | string[] | undefined): string[] | undefined {
+  if (type === undefined) return undefined;
+  return (Array.isArray(type) ? [...type] : [type]).sort();
+}
+
+function formatType(type: string | string[] | undefined): string {
+  if (type === undefined) return 'any';
+  return Array.isArray(type) ? type.join(' | ') : type;
+}
+
+function pick(source: Record<string, any>, keys: string[]): Record<string, any> {
+  const picked: Record<string, any> = {};
+  for (const key of keys) {
+    if (source[key] !== undefined) {
+      picked[key] = source[key];
+    }
+  }
+  return picked;
+}
+
+/**
+ * Formats a diff as human-readable lines, most severe first
+ */
+export function formatContractDiff(diff: ContractDiff): string[] {
+  const order: ChangeSeverity[] = ['breaking', 'additive', 'cosmetic'];
+  const lines = [...diff.changes]
+    .sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity))
+    .map(change => `[${change.severity}] ${change.path ? `${change.path}: ` : ''}${change.message}`);
+
+  if (!diff.versionSufficient) {
+    lines.push(
+      `Version must be at least ${toSemanticVersion(diff.minimumVersion)} (${diff.requiredBump} bump required)`
+    );
+  }
+
+  return lines;
+}
@@ -0,0 +1,291 @@
+/**
+ * In-process event bus driven by event contracts
+ */
+
+import type { EventContract, EventEnvelope } from '../types';
+import { ContractRegistry } from '../registry';
+import type { FieldValidationOptions } from '../validation';
+import {
+  CreateEventOptions,
+  EventPayloadOf,
+  EventValidationError,
+  createEvent,
+  isExpired,
+  parseEvent
+} from './envelope';
+import type { EventStore } from './store';
+
+/**
+ * Receives delivered events
+ */
+export type EventHandler<TPayload = Record<string, any>> = (event: EventEnvelope<TPayload>) => void | Promise<void>;
+
+/**
+ * Options for an EventBus
+ */
+export interface EventBusOptions extends FieldValidationOptions {
+  /** Registry to resolve event contracts from (default: a new, empty one) */
+  registry?: ContractRegistry;
+  /** Where events of `persistent` contracts are written; without one they are only delivered */
+  store?: EventStore;
+  /** Clock used for emission times and expiry checks (default: `() => new Date()`) */
+  now?: () => Date;
+  /**
+   * Called when a handler throws. Without it, the error is raised by the
+   * next `flush()`.
+   */
+  onError?: (error: unknown, event: EventEnvelope) => void;
+}
+
+/**
+ * Filter for `replay`
+ */
+export interface ReplayOptions {
+  /** Event type pattern, as accepted by `subscribe` */
+  eventType?: string;
+  /** Only replay events emitted at or after this time */
+  since?: Date;
+}
+
+interface Subscription {
+  pattern: RegExp;
+  handler: EventHandler<any>;
+}
+
+interface QueuedEvent {
+  envelope: EventEnvelope;
+  rank: number;
+  sequence: number;
+  /** Pending write to the store; the event is delivered once it settles */
+  stored: Promise<void>;
+  /** Set when the write failed, so the event is not delivered */
+  failed?: boolean;
+}
+
+const PRIORITY_RANK: Record<EventEnvelope['priority'], number> = {
+  critical: 0,
+  high: 1,
+  normal: 2,
+  low: 3
+};
+
+/**
+ * Delivers events to handlers subscribed by event type. Published events
+ * are validated against their contract, written to the store when the
+ * contract is `persistent`, and queued. Queued events are delivered in
+ * priority order (`critical` first, then first in, first out), and events
+ * whose `ttl` has passed by delivery time are dropped.
+ */
+export class EventBus {
+  private readonly registry: ContractRegistry;
+  private readonly subscriptions: Subscription[] = [];
+  private readonly queue: QueuedEvent[] = [];
+  private readonly errors: unknown[] = [];
+  private sequence = 0;
+  private draining: Promise<void> | undefined;
+
+  constructor(private readonly options: EventBusOptions = {}) {
+    this.registry = options.registry || new ContractRegistry();
+  }
+
+  /**
+   * Registers an event contract so its events can be published by type
+   */
+  register(contract: EventContract): this {
+    this.registry.register(contract);
+    return this;
+  }
+
+  /**
+   * Subscribes to events whose type matches a pattern. In patterns, `*`
+   * matches one dot-separated segment and `**` any number of them, so
+   * `user.*` matches `user.created` and `**` matches every event.
+   * Returns a function that removes the subscription.
+   */
+  subscribe<TPayload = Record<string, any>>(pattern: string, handler: EventHandler<TPayload>): () => void {
+    const subscription: Subscription = { pattern: compilePattern(pattern), handler };
+    this.subscriptions.push(subscription);
+    return () => {
+      const index = this.subscriptions.indexOf(subscription);
+      if (index !== -1) {
+        this.subscriptions.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Validates a payload and queues the event for delivery. The contract is
+   * given directly or looked up by event type, newest version first.
+   * Resolves with the envelope once the event is stored and queued; use
+   * `flush()` to wait for delivery.
+   */
+  async publish<C extends EventContract>(
+    contract: C | string,
+    payload: EventPayloadOf<C>,
+    options: CreateEventOptions = {}
+  ): Promise<EventEnvelope<EventPayloadOf<C>>> {
+    const resolved = typeof contract === 'string' ? this.registry.findEventContract(contract) : contract;
+    if (!resolved) {
+      throw new Error(`No event contract is registered for event type '${contract}'`);
+    }
+
+    const envelope = createEvent(resolved as C, payload, {
+      strict: this.options.strict,
+      emittedAt: this.now(),
+      ...options
+    });
+    await this.enqueue(envelope, resolved.eventMetadata?.persistent === true);
+    return envelope;
+  }
+
+  /**
+   * Publishes an envelope created elsewhere, such as one received from
+   * another process. It is checked with `parseEvent` against the registry;
+   * an invalid envelope is rejected with an EventValidationError.
+   */
+  async publishEnvelope(input: unknown): Promise<EventEnvelope> {
+    const result = parseEvent(input, this.registry, { strict: this.options.strict });
+    if (!result.valid) {
+      const eventType = typeof (input as any)?.eventType === 'string' ? (input as any).eventType : 'unknown';
+      throw new EventValidationError(eventType, result.errors);
+    }
+
+    await this.enqueue(result.envelope, result.contract.eventMetadata?.persistent === true);
+    return result.envelope;
+  }
+
+  /**
+   * Re-delivers stored events, oldest first, without storing them again.
+   * Expired events are dropped as usual. Resolves with the number of events
+   * queued, once they have been delivered.
+   */
+  async replay(options: ReplayOptions = {}): Promise<number> {
+    if (!this.options.store) {
+      throw new Error('Cannot replay events without an event store');
+    }
+
+    const pattern = options.eventType ? compilePattern(options.eventType) : undefined;
+    const since = options.since?.getTime();
+    const events = (await this.options.store.read()).filter(envelope =>
+      (!pattern || pattern.test(envelope.eventType)) &&
+      (since === undefined || Date.parse(envelope.emittedAt) >= since)
+    );
+
+    for (const envelope of events) {
+      this.enqueue(envelope, false);
+    }
+    await this.flush();
+    return events.length;
+  }
+
+  /**
+   * Resolves once every queued event has been delivered, including events
+   * published by handlers in the meantime. Rejects with the first handler
+   * error since the last flush when no `onError` option is set, or with an
+   * error thrown by `onError` itself. Handlers must not await it, since
+   * delivery waits for them.
+   */
+  async flush(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+    if (this.errors.length > 0) {
+      const [error] = this.errors.splice(0);
+      throw error;
+    }
+  }
+
+  /**
+   * Queues an event, writing it to the store first when `persist` is set.
+   * Resolves once the write is done; rejects, without delivering the
+   * event, if it fails.
+   */
+  private enqueue(envelope: EventEnvelope, persist: boolean): Promise<void> {
+    const stored = persist && this.options.store ? this.options.store.append(envelope) : Promise.resolve();
+    const item: QueuedEvent = {
+      envelope,
+      rank: PRIORITY_RANK[envelope.priority] ?? PRIORITY_RANK.normal,
+      sequence: this.sequence++,
+      stored: stored.then(() => undefined, () => {
+        item.failed = true;
+      })
+    };
+    this.queue.push(item);
+
+    if (!this.draining) {
+      // Start on a later tick so events published together are ordered by
+      // priority; failures (e.g. a throwing onError) surface from flush()
+      this.draining = Promise.resolve().then(() => this.drain()).catch(error => {
+        this.errors.push(error);
+      });
+    }
+    return stored;
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      while (this.queue.length > 0) {
+        // Events still being stored keep their place in the priority order
+        await Promise.all(this.queue.map(item => item.stored));
+        let next = 0;
+        for (let i = 1; i < this.queue.length; i++) {
+          const candidate = this.queue[i];
+          const best = this.queue[next];
+          if (candidate.rank < best.rank || (candidate.rank === best.rank && candidate.sequence < best.sequence)) {
+            next = i;
+          }
+        }
+        const [item] = this.queue.splice(next, 1);
+        if (!item.failed) {
+          await this.deliver(item.envelope);
+        }
+      }
+    } finally {
+      this.draining = undefined;
+    }
+  }
+
+  private async deliver(envelope: EventEnvelope): Promise<void> {
+    if (isExpired(envelope, this.now())) {
+      return;
+    }
+
+    const handlers = this.subscriptions
+      .filter(subscription => subscription.pattern.test(envelope.eventType))
+      .map(subscription => subscription.handler);
+    for (const handler of handlers) {
+      try {
+        await handler(envelope);
+      } catch (error) {
+        if (this.options.onError) {
+          this.options.onError(error, envelope);
+        } else {
+          this.errors.push(error);
+        }
+      }
+    }
+  }
+
+  private now(): Date {
+    return this.options.now ? this.options.now() : new Date();
+  }
+}
+
+/**
+ * Compiles an event type pattern to a regular expression
+ */
+function compilePattern(pattern: string): RegExp {
+  const source = pattern
+    .split('.')
+    .map(segment => {
+      if (segment === '**') {
+        return '.*';
+      }
+      return segment
+        .split('*')
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^.]*');
+    })
+    .join('\\.');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,197 @@
+/**
+ * Creating and reading event envelopes
+ */
+
+import { randomUUID } from 'crypto';
+import type { ContractVersion, EventContract, EventEnvelope, InferPayload } from '../types';
+import { schemas } from '../schemas';
+import {
+  FieldValidationOptions,
+  ValidationError,
+  validateAgainstSchema,
+  validateEventPayload
+} from '../validation';
+import type { ContractRegistry } from '../registry';
+import { isEventContract, parseSemanticVersion, toSemanticVersion } from '../utils';
+
+/**
+ * Payload type accepted for a contract: inferred when the contract keeps its
+ * literal types (see defineEventContract), otherwise any object
+ */
+export type EventPayloadOf<C extends EventContract> =
+  Record<string, any> extends C['payload'] ? Record<string, any> : InferPayload<C>;
+
+/**
+ * Options for createEvent
+ */
+export interface CreateEventOptions extends FieldValidationOptions {
+  /** Event id (default: a random UUID) */
+  id?: string;
+  /** Emission time (default: now) */
+  emittedAt?: Date;
+  correlationId?: string;
+  causationId?: string;
+  /**
+   * Event that caused this one. Sets `causationId` to its id and carries
+   * over its `correlationId` (or its id when it has none).
+   */
+  causedBy?: EventEnvelope<any>;
+  /** Overrides the contract's priority */
+  priority?: EventEnvelope['priority'];
+}
+
+/**
+ * Thrown when an event or its payload does not match its contract
+ */
+export class EventValidationError extends Error {
+  constructor(
+    public readonly eventType: string,
+    public readonly errors: ValidationError[]
+  ) {
+    super(
+      `Invalid '${eventType}' event (${errors.length} error(s)):\n` +
+      errors.map(error => `  - ${error.path || '(root)'}: ${error.message}`).join('\n')
+    );
+    this.name = 'EventValidationError';
+  }
+}
+
+/**
+ * Why parseEvent rejected an event
+ */
+export type ParseEventErrorCode =
+  | 'invalid-envelope'
+  | 'unknown-contract'
+  | 'incompatible-version'
+  | 'invalid-payload';
+
+/**
+ * Result of parseEvent
+ */
+export type ParseEventResult =
+  | { valid: true; envelope: EventEnvelope; contract: EventContract }
+  | { valid: false; code: ParseEventErrorCode; errors: ValidationError[] };
+
+/**
+ * Validates a payload against an event contract and wraps it in an
+ * envelope. Throws an EventValidationError when the payload is invalid.
+ */
+export function createEvent<C extends EventContract>(
+  contract: C,
+  payload: EventPayloadOf<C>,
+  options: CreateEventOptions = {}
+): EventEnvelope<EventPayloadOf<C>> {
+  const result = validateEventPayload(contract, payload, options);
+  if (!result.valid) {
+    throw new EventValidationError(contract.eventType, result.errors);
+  }
+
+  const emittedAt = options.emittedAt || new Date();
+  const ttl = contract.eventMetadata?.ttl;
+  const correlationId = options.correlationId ?? options.causedBy?.correlationId ?? options.causedBy?.id;
+  const causationId = options.causationId ?? options.causedBy?.id;
+
+  const envelope: EventEnvelope<EventPayloadOf<C>> = {
+    id: options.id || randomUUID(),
+    eventType: contract.eventType,
+    contractId: contract.id,
+    contractVersion: toSemanticVersion(contract.version),
+    emittedAt: emittedAt.toISOString(),
+    ...(correlationId !== undefined ? { correlationId } : {}),
+    ...(causationId !== undefined ? { causationId } : {}),
+    priority: options.priority || contract.eventMetadata?.priority || 'normal',
+    ...(ttl !== undefined ? { expiresAt: new Date(emittedAt.getTime() + ttl).toISOString() } : {}),
+    payload
+  };
+
+  return envelope;
+}
+
+/**
+ * Reads an envelope, given as JSON text or an already decoded value, and
+ * checks it against the registry. The contract used is the exact version
+ * named by the envelope, or else the newest registered version with the
+ * same major version (the same minor version below 1.0.0).
+ */
+export function parseEvent(
+  input: unknown,
+  registry: ContractRegistry,
+  options: FieldValidationOptions = {}
+): ParseEventResult {
+  let envelope: any = input;
+  if (typeof input === 'string') {
+    try {
+      envelope = JSON.parse(input);
+    } catch (error) {
+      return invalid('invalid-envelope', '', `Invalid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  const structure = validateAgainstSchema(envelope, schemas.eventEnvelope);
+  if (!structure.valid) {
+    return { valid: false, code: 'invalid-envelope', errors: structure.errors };
+  }
+
+  if (!registry.has(envelope.contractId)) {
+    return invalid('unknown-contract', 'contractId', `No contract '${envelope.contractId}' is registered`);
+  }
+
+  const version = parseSemanticVersion(envelope.contractVersion);
+  const contract = registry.get(envelope.contractId, version) ||
+    registry.getVersions(envelope.contractId).find(candidate => isCompatible(candidate.version, version));
+  if (!contract) {
+    return invalid(
+      'incompatible-version',
+      'contractVersion',
+      `No registered version of '${envelope.contractId}' is compatible with ${envelope.contractVersion}`
+    );
+  }
+  if (!isEventContract(contract)) {
+    return invalid('unknown-contract', 'contractId', `Contract '${envelope.contractId}' is not an event contract`);
+  }
+  if (contract.eventType !== envelope.eventType) {
+    return invalid(
+      'invalid-envelope',
+      'eventType',
+      `Event type '${envelope.eventType}' does not match contract event type '${contract.eventType}'`
+    );
+  }
+
+  const payload = validateEventPayload(contract, envelope.payload, options);
+  if (!payload.valid) {
+    return {
+      valid: false,
+      code: 'invalid-payload',
+      errors: payload.errors.map(error => ({ ...error, path: error.path ? `payload.${error.path}` : 'payload' }))
+    };
+  }
+
+  return { valid: true, envelope: envelope as EventEnvelope, contract };
+}
+
+/**
+ * Whether an envelope's expiry has passed. Envelopes without `expiresAt`
+ * never expire.
+ */
+export function isExpired(envelope: EventEnvelope<any>, now: Date | number = Date.now()): boolean {
+  if (!envelope.expiresAt) {
+    return false;
+  }
+  const time = typeof now === 'number' ? now : now.getTime();
+  return Date.parse(envelope.expiresAt) <= time;
+}
+
+/**
+ * Versions with the same major version share a payload shape that only
+ * grows; below 1.0.0 the minor version plays that role
+ */
+function isCompatible(candidate: ContractVersion, version: ContractVersion): boolean {
+  if (candidate.major !== version.major) {
+    return false;
+  }
+  return version.major > 0 || candidate.minor === version.minor;
+}
+
+function invalid(code: ParseEventErrorCode, path: string, message: string): ParseEventResult {
+  return { valid: false, code, errors: [{ path, message }] };
+}
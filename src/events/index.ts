@@ -0,0 +1,7 @@
+/**
+ * Event runtime built on event contracts
+ */
+
+export * from './envelope';
+export * from './bus';
+export * from './store';
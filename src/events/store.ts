@@ -0,0 +1,71 @@
+/**
+ * Storage for persistent events, so they can be replayed
+ */
+
+import * as fs from 'fs';
+import type { EventEnvelope } from '../types';
+
+/**
+ * Where an EventBus writes events whose contract is `persistent`
+ */
+export interface EventStore {
+  /** Stores one event */
+  append(envelope: EventEnvelope): Promise<void>;
+  /** Reads every stored event in the order it was appended */
+  read(): Promise<EventEnvelope[]>;
+}
+
+/**
+ * Keeps events in memory; useful for tests and single-process tools
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly events: EventEnvelope[] = [];
+
+  async append(envelope: EventEnvelope): Promise<void> {
+    this.events.push(envelope);
+  }
+
+  async read(): Promise<EventEnvelope[]> {
+    return [...this.events];
+  }
+}
+
+/**
+ * Appends events to a file as JSON lines, one envelope per line
+ */
+export class JsonLinesEventStore implements EventStore {
+  constructor(private readonly file: string) {}
+
+  async append(envelope: EventEnvelope): Promise<void> {
+    await fs.promises.appendFile(this.file, `${JSON.stringify(envelope)}\n`, 'utf-8');
+  }
+
+  /**
+   * Reads the file back; a missing file holds no events. Throws on a line
+   * that is not valid JSON.
+   */
+  async read(): Promise<EventEnvelope[]> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const events: EventEnvelope[] = [];
+    text.split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        events.push(JSON.parse(line));
+      } catch (error) {
+        throw new Error(`Invalid event on line ${index + 1} of ${this.file}: ${(error as Error).message}`);
+      }
+    });
+    return events;
+  }
+}
@@ -9,6 +9,18 @@
 export * from './types';
 export * from './schemas';
 export * from './validation';
+export * from './registry';
+export * from './diff';
+export * from './loader';
+export * from './codegen';
+export * from './openapi';
+export * from './asyncapi';
+export * from './sql';
+export * from './lint';
+export * from './builders';
+export * from './events';
+export * from './client';
+export * from './server';
 
 // Export utilities
 export * from './utils';
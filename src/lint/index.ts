@@ -0,0 +1,167 @@
+/**
+ * Style and policy linting for contracts
+ */
+
+import { BaseContract, ContractKind } from '../types';
+import { inferContractKind } from '../utils';
+import { builtInRules } from './rules';
+
+export { builtInRules } from './rules';
+
+/**
+ * Severity a rule is configured with; `off` disables it
+ */
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+/**
+ * A rule's configuration: a severity, or a severity and rule options
+ */
+export type LintRuleSetting = LintSeverity | [LintSeverity, Record<string, any>?];
+
+/**
+ * Linter configuration, keyed by rule id
+ */
+export interface LintConfig {
+  rules?: Record<string, LintRuleSetting>;
+}
+
+/**
+ * A rule violation found in a contract
+ */
+export interface LintFinding {
+  ruleId: string;
+  severity: 'error' | 'warning';
+  /** Id of the offending contract */
+  contractId: string;
+  /** Location within the contract, e.g. `fields.created_at` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Passed to a rule's `check` to read options and report violations
+ */
+export interface LintContext<TOptions = Record<string, any>> {
+  /** The rule's default options merged with the configured ones */
+  options: TOptions;
+  /** Kind of the contract being checked */
+  kind: ContractKind | undefined;
+  report(message: string, path?: string): void;
+}
+
+/**
+ * A lint rule. Rules see every contract; use `kinds` to restrict a rule to
+ * some contract kinds.
+ */
+export interface LintRule<TOptions = Record<string, any>> {
+  id: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  defaultOptions?: TOptions;
+  kinds?: ContractKind[];
+  check(contract: BaseContract & Record<string, any>, context: LintContext<TOptions>): void;
+}
+
+/**
+ * Runs a set of lint rules over contracts. Contracts can suppress rules
+ * by listing their ids (or `*`) in `metadata.suppressLint`.
+ */
+export class ContractLinter {
+  private rules: Map<string, LintRule<any>> = new Map();
+
+  constructor(private config: LintConfig = {}, rules: LintRule<any>[] = builtInRules) {
+    for (const rule of rules) {
+      this.registerRule(rule);
+    }
+  }
+
+  /**
+   * Adds a custom rule; throws if a rule with the same id exists
+   */
+  registerRule<TOptions>(rule: LintRule<TOptions>): this {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Lint rule '${rule.id}' is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+    return this;
+  }
+
+  /**
+   * Lists the registered rules
+   */
+  getRules(): LintRule<any>[] {
+    return [...this.rules.values()];
+  }
+
+  /**
+   * Lints a single contract
+   */
+  lint(contract: BaseContract): LintFinding[] {
+    this.checkConfig();
+    const findings: LintFinding[] = [];
+    const kind = inferContractKind(contract);
+    const suppressed = contract.metadata?.suppressLint || [];
+
+    for (const rule of this.rules.values()) {
+      const [severity, options] = this.resolveSetting(rule);
+      if (severity === 'off' || suppressed.includes(rule.id) || suppressed.includes('*')) {
+        continue;
+      }
+      if (rule.kinds && (!kind || !rule.kinds.includes(kind))) {
+        continue;
+      }
+
+      rule.check(contract as BaseContract & Record<string, any>, {
+        options,
+        kind,
+        report: (message, path = '') => findings.push({
+          ruleId: rule.id,
+          severity,
+          contractId: contract.id,
+          path,
+          message
+        })
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Lints several contracts
+   */
+  lintAll(contracts: BaseContract[]): LintFinding[] {
+    return contracts.flatMap(contract => this.lint(contract));
+  }
+
+  /**
+   * Rejects configuration for rules that are not registered, which is
+   * usually a typo
+   */
+  private checkConfig(): void {
+    for (const [id, setting] of Object.entries(this.config.rules || {})) {
+      if (!this.rules.has(id)) {
+        throw new Error(`Unknown lint rule '${id}'`);
+      }
+      const severity = Array.isArray(setting) ? setting[0] : setting;
+      if (!['error', 'warning', 'off'].includes(severity)) {
+        throw new Error(`Invalid severity '${severity}' for lint rule '${id}'; expected error, warning or off`);
+      }
+    }
+  }
+
+  private resolveSetting(rule: LintRule<any>): [LintSeverity, Record<string, any>] {
+    const setting = this.config.rules?.[rule.id];
+    const [severity, options] = Array.isArray(setting)
+      ? setting
+      : [setting ?? rule.defaultSeverity, undefined];
+    return [severity, { ...(rule.defaultOptions || {}), ...(options || {}) }];
+  }
+}
+
+/**
+ * Lints a contract with the built-in rules
+ */
+export function lintContract(contract: BaseContract, config: LintConfig = {}): LintFinding[] {
+  return new ContractLinter(config).lint(contract);
+}
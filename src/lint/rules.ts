@@ -0,0 +1,162 @@
+/**
+ * Built-in lint rules
+ */
+
+import type { ApiContract, DataModelContract, EventContract, FieldDefinition } from '../types';
+import type { LintRule } from './index';
+import { normalizeFieldDefinition } from '../validation/fields';
+
+const PASCAL_CASE = /^[A-Z][a-zA-Z0-9]*$/;
+const CAMEL_CASE = /^[a-z][a-zA-Z0-9]*$/;
+const KEBAB_CASE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Every contract explains what it is for
+ */
+export const requireDescription: LintRule = {
+  id: 'require-description',
+  description: 'Contracts have a description',
+  defaultSeverity: 'warning',
+  check(contract, context) {
+    if (!contract.description || !contract.description.trim()) {
+      context.report('Contract has no description', 'description');
+    }
+  }
+};
+
+/**
+ * Deprecations tell consumers why and what to use instead
+ */
+export const deprecationReason: LintRule = {
+  id: 'deprecation-reason',
+  description: 'Deprecated contracts give a deprecationReason',
+  defaultSeverity: 'warning',
+  check(contract, context) {
+    if (contract.metadata?.deprecated && !contract.metadata.deprecationReason) {
+      context.report('Deprecated contract has no deprecationReason', 'metadata.deprecationReason');
+    }
+  }
+};
+
+/**
+ * Tags come from a shared vocabulary. Does nothing until `allowed` is configured.
+ */
+export const allowedTags: LintRule<{ allowed: string[] }> = {
+  id: 'allowed-tags',
+  description: 'Tags come from the configured allow-list',
+  defaultSeverity: 'error',
+  defaultOptions: { allowed: [] },
+  check(contract, context) {
+    const { allowed } = context.options;
+    if (allowed.length === 0) {
+      return;
+    }
+    (contract.metadata?.tags || []).forEach((tag, index) => {
+      if (!allowed.includes(tag)) {
+        context.report(`Tag '${tag}' is not in the allowed list`, `metadata.tags[${index}]`);
+      }
+    });
+  }
+};
+
+/**
+ * API paths are versioned and use kebab-case segments
+ */
+export const apiPathStyle: LintRule<{ prefix: string }> = {
+  id: 'api-path-style',
+  description: 'API paths start with a versioned prefix and use kebab-case segments',
+  defaultSeverity: 'warning',
+  defaultOptions: { prefix: '^/api/v[0-9]+/' },
+  kinds: ['api'],
+  check(contract, context) {
+    const { path } = contract as ApiContract;
+    if (!new RegExp(context.options.prefix).test(path)) {
+      context.report(`Path '${path}' does not match the versioned prefix ${context.options.prefix}`, 'path');
+    }
+
+    const segments = path.split('/').filter(Boolean);
+    for (const segment of segments) {
+      const isParameter = /^(:[A-Za-z_][A-Za-z0-9_]*|\{[A-Za-z_][A-Za-z0-9_]*\})$/.test(segment);
+      if (!isParameter && !KEBAB_CASE.test(segment)) {
+        context.report(`Path segment '${segment}' is not kebab-case`, 'path');
+      }
+    }
+  }
+};
+
+/**
+ * Event types read as `domain.action`, e.g. `user.created`
+ */
+export const eventTypeFormat: LintRule<{ pattern: string }> = {
+  id: 'event-type-format',
+  description: "Event types follow the 'domain.action' format",
+  defaultSeverity: 'warning',
+  defaultOptions: { pattern: '^[a-z][a-z0-9-]*(\\.[a-z][a-z0-9-]*)+$' },
+  kinds: ['event'],
+  check(contract, context) {
+    const { eventType } = contract as EventContract;
+    if (!new RegExp(context.options.pattern).test(eventType)) {
+      context.report(`Event type '${eventType}' does not follow the 'domain.action' format`, 'eventType');
+    }
+  }
+};
+
+/**
+ * Model names are PascalCase and field names camelCase, including nested fields
+ */
+export const modelNaming: LintRule = {
+  id: 'model-naming',
+  description: 'Model names are PascalCase and field names camelCase',
+  defaultSeverity: 'warning',
+  kinds: ['data-model'],
+  check(contract, context) {
+    const model = contract as DataModelContract;
+    if (!PASCAL_CASE.test(model.modelName)) {
+      context.report(`Model name '${model.modelName}' is not PascalCase`, 'modelName');
+    }
+
+    const visit = (fields: Record<string, FieldDefinition | string>, path: string) => {
+      for (const [name, raw] of Object.entries(fields)) {
+        const fieldPath = `${path}.${name}`;
+        if (!CAMEL_CASE.test(name)) {
+          context.report(`Field name '${name}' is not camelCase`, fieldPath);
+        }
+        const definition = normalizeFieldDefinition(raw);
+        if (definition.properties) {
+          visit(definition.properties, `${fieldPath}.properties`);
+        }
+      }
+    };
+    visit(model.fields || {}, 'fields');
+  }
+};
+
+/**
+ * Endpoints that change data require authentication
+ */
+export const writeEndpointAuth: LintRule = {
+  id: 'write-endpoint-auth',
+  description: "Write endpoints (POST, PUT, PATCH, DELETE) do not use auth type 'none'",
+  defaultSeverity: 'error',
+  kinds: ['api'],
+  check(contract, context) {
+    const api = contract as ApiContract;
+    if (WRITE_METHODS.includes(api.method) && api.auth?.type === 'none') {
+      context.report(`${api.method} endpoint ${api.path} does not require authentication`, 'auth.type');
+    }
+  }
+};
+
+/**
+ * Rules a ContractLinter runs by default
+ */
+export const builtInRules: LintRule<any>[] = [
+  requireDescription,
+  deprecationReason,
+  allowedTags,
+  apiPathStyle,
+  eventTypeFormat,
+  modelNaming,
+  writeEndpointAuth
+];
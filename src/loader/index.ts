@@ -0,0 +1,309 @@
+/**
+ * Loading and validating contract files from disk
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Contract, ContractKind } from '../types';
+import { parseContract } from '../validation';
+import { ContractRegistry } from '../registry';
+import { toSemanticVersion } from '../utils';
+
+/**
+ * Problem found while loading a contract file
+ */
+export interface ContractDiagnostic {
+  /** Diagnostic category */
+  code: 'read-error' | 'parse-error' | 'unknown-kind' | 'invalid-contract' | 'duplicate-contract';
+  /** Human-readable message */
+  message: string;
+  /** Path inside the contract for validation errors */
+  path?: string;
+  /** Character offset of a JSON parse error */
+  position?: number;
+  /** 1-based line of a JSON parse error */
+  line?: number;
+  /** 1-based column of a JSON parse error */
+  column?: number;
+}
+
+/**
+ * Outcome of loading a single contract file
+ */
+export interface ContractFileResult {
+  /** Path of the file */
+  file: string;
+  /** Detected contract kind */
+  kind?: ContractKind;
+  /** The contract, when it parsed and validated */
+  contract?: Contract;
+  /** Problems found in the file */
+  diagnostics: ContractDiagnostic[];
+}
+
+/**
+ * Outcome of loading a contracts directory
+ */
+export interface ContractDirectoryResult {
+  /** Registry holding every valid, non-duplicate contract */
+  registry: ContractRegistry;
+  /** Per-file results, ordered by path */
+  files: ContractFileResult[];
+  /** Whether every file loaded without diagnostics */
+  valid: boolean;
+}
+
+/**
+ * Options for loading a contracts directory
+ */
+export interface LoadContractsOptions {
+  /** Descend into subdirectories (default true) */
+  recursive?: boolean;
+  /** File extensions to load (default ['.json']) */
+  extensions?: string[];
+}
+
+/**
+ * Walks a directory, parses every contract file, validates it with the
+ * validator for its kind and registers the valid ones. Contracts that
+ * repeat an id and version already loaded from another file are reported
+ * and skipped.
+ */
+export function loadContractsDirectory(
+  directory: string,
+  options: LoadContractsOptions = {}
+): ContractDirectoryResult {
+  const registry = new ContractRegistry();
+  const sources = new Map<string, string>();
+  const files = listContractFiles(directory, options).map(file => {
+    const result = loadContractFile(file);
+    const contract = result.contract;
+    if (!contract) {
+      return result;
+    }
+
+    const key = `${contract.id}@${toSemanticVersion(contract.version)}`;
+    if (registry.has(contract.id, contract.version)) {
+      return {
+        ...result,
+        contract: undefined,
+        diagnostics: [{
+          code: 'duplicate-contract' as const,
+          message: `Contract '${contract.id}' version ${toSemanticVersion(contract.version)} is already defined in ${sources.get(key)}`
+        }]
+      };
+    }
+
+    registry.register(contract);
+    sources.set(key, file);
+    return result;
+  });
+
+  return {
+    registry,
+    files,
+    valid: files.every(file => file.diagnostics.length === 0)
+  };
+}
+
+/**
+ * Reads, parses and validates a single contract file
+ */
+export function loadContractFile(file: string): ContractFileResult {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    return {
+      file,
+      diagnostics: [{
+        code: 'read-error',
+        message: `Unable to read file: ${(error as Error).message}`
+      }]
+    };
+  }
+
+  return { ...parseContractSource(text), file };
+}
+
+/**
+ * Parses and validates contract JSON text
+ */
+export function parseContractSource(text: string): Omit<ContractFileResult, 'file'> {
+  let data: any;
+  try {
+    // Strip a UTF-8 byte order mark, which JSON.parse rejects
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    return { diagnostics: [createParseDiagnostic(text, error as Error)] };
+  }
+
+  const result = parseContract(data);
+  if (!result.valid) {
+    return {
+      kind: result.kind,
+      diagnostics: result.errors.map(error => ({
+        code: result.code,
+        message: error.message,
+        ...(result.code === 'invalid-contract' ? { path: error.path } : {})
+      }))
+    };
+  }
+
+  return { kind: result.kind, contract: result.contract, diagnostics: [] };
+}
+
+/**
+ * Lists contract files in a directory, sorted by path
+ */
+export function listContractFiles(directory: string, options: LoadContractsOptions = {}): string[] {
+  const recursive = options.recursive !== false;
+  const extensions = (options.extensions || ['.json']).map(extension => extension.toLowerCase());
+  const files: string[] = [];
+
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          walk(entryPath);
+        }
+      } else if (entry.isFile() && extensions.includes(path.extname(entry.name).toLowerCase())) {
+        files.push(entryPath);
+      }
+    }
+  };
+
+  walk(directory);
+  return files.sort();
+}
+
+function createParseDiagnostic(text: string, error: Error): ContractDiagnostic {
+  // Offsets are found in the text JSON.parse saw, without the byte order mark
+  const bom = text.startsWith('\uFEFF') ? 1 : 0;
+  const source = text.slice(bom);
+  const offset = findJsonErrorOffset(source);
+  const preceding = source.slice(0, offset).split(/\r\n|\r|\n/);
+
+  return {
+    code: 'parse-error',
+    message: `Invalid JSON: ${error.message}`,
+    position: offset + bom,
+    line: preceding.length,
+    column: preceding[preceding.length - 1].length + 1
+  };
+}
+
+/**
+ * Offset of the first JSON syntax error in a text. Not every JSON.parse
+ * message carries a position, so the text is scanned again.
+ */
+function findJsonErrorOffset(text: string): number {
+  let index = 0;
+  const fail = (): never => {
+    throw new JsonSyntaxOffset(index);
+  };
+  const skipWhitespace = () => {
+    while (index < text.length && ' \t\n\r'.includes(text[index])) {
+      index++;
+    }
+  };
+
+  const scanString = () => {
+    index++;
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"') {
+        index++;
+        return;
+      }
+      if (char === '\\') {
+        const escape = text[index + 1];
+        if (escape !== undefined && '"\\/bfnrt'.includes(escape)) {
+          index += 2;
+        } else if (escape === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(index + 2, index + 6))) {
+          index += 6;
+        } else {
+          index++;
+          fail();
+        }
+      } else if (char < ' ') {
+        fail();
+      } else {
+        index++;
+      }
+    }
+    fail();
+  };
+
+  const scanValue = (): void => {
+    skipWhitespace();
+    const char = text[index];
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      index++;
+      skipWhitespace();
+      if (text[index] === close) {
+        index++;
+        return;
+      }
+      for (;;) {
+        if (close === '}') {
+          skipWhitespace();
+          if (text[index] !== '"') {
+            fail();
+          }
+          scanString();
+          skipWhitespace();
+          if (text[index] !== ':') {
+            fail();
+          }
+          index++;
+        }
+        scanValue();
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+        } else if (text[index] === close) {
+          index++;
+          return;
+        } else {
+          fail();
+        }
+      }
+    }
+    if (char === '"') {
+      scanString();
+      return;
+    }
+    const number = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+    number.lastIndex = index;
+    if (number.test(text)) {
+      index = number.lastIndex;
+      return;
+    }
+    const literal = ['true', 'false', 'null'].find(word => text.startsWith(word, index));
+    if (!literal) {
+      fail();
+    }
+    index += literal!.length;
+  };
+
+  try {
+    scanValue();
+    skipWhitespace();
+    if (index < text.length) {
+      fail();
+    }
+  } catch (error) {
+    if (error instanceof JsonSyntaxOffset) {
+      return error.offset;
+    }
+    throw error;
+  }
+  return text.length;
+}
+
+class JsonSyntaxOffset {
+  constructor(public readonly offset: number) {}
+}
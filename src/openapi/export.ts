@@ -0,0 +1,388 @@
+/**
+ * OpenAPI 3.1 export for API contracts
+ */
+
+import { ApiContract, AuthRequirements } from '../types';
+import { compareVersions, extractPathParameters, toSemanticVersion, toYaml } from '../utils';
+import { isBodylessMethod, isStatusKeyedSchema } from '../validation/api';
+import { resolveLocalRef } from '../validation/json-schema';
+import { camelCase, pascalCase, stripIdSuffix } from '../codegen/naming';
+
+/**
+ * The `info` object of an OpenAPI document
+ */
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+  [extension: string]: any;
+}
+
+/**
+ * An OpenAPI 3.1 document. Only the top-level shape is typed; nested
+ * objects follow the specification.
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: OpenApiInfo;
+  servers?: Array<{ url: string; description?: string }>;
+  tags?: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, any>>;
+  components?: {
+    schemas?: Record<string, any>;
+    securitySchemes?: Record<string, any>;
+    [section: string]: any;
+  };
+  [extension: string]: any;
+}
+
+/**
+ * Options for OpenAPI export
+ */
+export interface OpenApiExportOptions {
+  /** Servers the API is reachable at */
+  servers?: Array<{ url: string; description?: string }>;
+  /** Where API keys are sent (default the `X-API-Key` header) */
+  apiKey?: { name: string; in: 'header' | 'query' | 'cookie' };
+  /** OAuth2 flows; defaults to a client-credentials flow listing every used scope */
+  oauth2Flows?: Record<string, any>;
+  /** Token URL of the default client-credentials flow (default `/oauth/token`) */
+  oauth2TokenUrl?: string;
+}
+
+/**
+ * Names of the security schemes emitted for each auth type
+ */
+const SECURITY_SCHEME_NAMES: Record<Exclude<AuthRequirements['type'], 'none'>, string> = {
+  bearer: 'bearerAuth',
+  basic: 'basicAuth',
+  'api-key': 'apiKeyAuth',
+  oauth2: 'oauth2'
+};
+
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  '1': 'Informational response',
+  '2': 'Successful response',
+  '3': 'Redirect',
+  '4': 'Client error',
+  '5': 'Server error',
+  default: 'Unexpected response'
+};
+
+/**
+ * Builds an OpenAPI 3.1 document describing a collection of API contracts.
+ * When several versions of the same method and path are given, the
+ * latest one is documented.
+ */
+export function toOpenApi(
+  contracts: ApiContract[],
+  info: OpenApiInfo,
+  options: OpenApiExportOptions = {}
+): OpenApiDocument {
+  const paths: Record<string, Record<string, any>> = {};
+  const schemas: Record<string, any> = {};
+  const usedSchemes = new Set<string>();
+  const oauthScopes = new Set<string>();
+  const tags = new Set<string>();
+
+  for (const contract of latestOperations(contracts)) {
+    const route = toOpenApiPath(contract.path);
+    const operation = buildOperation(contract, schemas);
+
+    if (contract.auth) {
+      if (contract.auth.type !== 'none') {
+        usedSchemes.add(contract.auth.type);
+      }
+      if (contract.auth.type === 'oauth2') {
+        (contract.auth.scopes || []).forEach(scope => oauthScopes.add(scope));
+      }
+    }
+    (contract.metadata?.tags || []).forEach(tag => tags.add(tag));
+
+    paths[route] = paths[route] || {};
+    paths[route][contract.method.toLowerCase()] = operation;
+  }
+
+  const securitySchemes: Record<string, any> = {};
+  for (const type of Object.keys(SECURITY_SCHEME_NAMES) as Array<keyof typeof SECURITY_SCHEME_NAMES>) {
+    if (usedSchemes.has(type)) {
+      securitySchemes[SECURITY_SCHEME_NAMES[type]] = securityScheme(type, [...oauthScopes].sort(), options);
+    }
+  }
+
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    info,
+    servers: options.servers && options.servers.length > 0 ? options.servers : undefined,
+    tags: tags.size > 0 ? [...tags].sort().map(name => ({ name })) : undefined,
+    paths
+  };
+  if (Object.keys(schemas).length > 0 || Object.keys(securitySchemes).length > 0) {
+    document.components = {};
+    if (Object.keys(schemas).length > 0) {
+      document.components.schemas = schemas;
+    }
+    if (Object.keys(securitySchemes).length > 0) {
+      document.components.securitySchemes = securitySchemes;
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Serializes an OpenAPI document as JSON or YAML
+ */
+export function serializeOpenApi(document: OpenApiDocument, format: 'json' | 'yaml' = 'json'): string {
+  return format === 'yaml' ? toYaml(document) : `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Converts a contract path to OpenAPI path templating, e.g. `/users/:id` → `/users/{id}`
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, '{$1}');
+}
+
+/**
+ * Keeps the latest version of each method and path
+ */
+function latestOperations(contracts: ApiContract[]): ApiContract[] {
+  const latest = new Map<string, ApiContract>();
+  for (const contract of contracts) {
+    const key = `${contract.method} ${toOpenApiPath(contract.path)}`;
+    const current = latest.get(key);
+    if (!current || compareVersions(contract.version, current.version) > 0) {
+      latest.set(key, contract);
+    }
+  }
+  return [...latest.values()];
+}
+
+function buildOperation(contract: ApiContract, schemas: Record<string, any>): Record<string, any> {
+  const baseName = pascalCase(stripIdSuffix(contract.id, ['api', 'endpoint']));
+  const operation: Record<string, any> = {
+    operationId: camelCase(contract.id),
+    summary: contract.name
+  };
+
+  if (contract.description) {
+    operation.description = contract.description;
+  }
+  if (contract.metadata?.tags && contract.metadata.tags.length > 0) {
+    operation.tags = [...contract.metadata.tags];
+  }
+  if (contract.metadata?.documentationUrl) {
+    operation.externalDocs = { url: contract.metadata.documentationUrl };
+  }
+  if (contract.metadata?.deprecated) {
+    operation.deprecated = true;
+  }
+
+  const parameters: any[] = extractPathParameters(contract.path).map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }));
+
+  if (contract.requestSchema) {
+    const schema = convertSchema(contract.requestSchema, `${baseName}Request`, schemas);
+    if (isBodylessMethod(contract.method)) {
+      parameters.push(...queryParameters(contract.requestSchema, schema, schemas));
+    } else {
+      operation.requestBody = {
+        required: true,
+        content: { 'application/json': { schema } }
+      };
+    }
+  }
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  operation.responses = buildResponses(contract, baseName, schemas);
+  if (contract.auth) {
+    operation.security = securityRequirements(contract.auth);
+  }
+  operation['x-contract-id'] = contract.id;
+  operation['x-contract-version'] = toSemanticVersion(contract.version);
+
+  return operation;
+}
+
+/**
+ * Describes the properties of a bodyless method's request schema as query parameters
+ */
+function queryParameters(
+  original: Record<string, any>,
+  converted: Record<string, any>,
+  schemas: Record<string, any>
+): any[] {
+  const root = typeof original.$ref === 'string' ? resolveLocalRef(original, original.$ref) || {} : original;
+  const required: string[] = Array.isArray(root.required) ? root.required : [];
+  const target = typeof converted.$ref === 'string'
+    ? schemas[converted.$ref.replace('#/components/schemas/', '')] || {}
+    : converted;
+  const properties: Record<string, any> = target.properties || {};
+
+  return Object.entries(properties).map(([name, schema]) => {
+    const { description, ...rest } = schema || {};
+    const parameter: Record<string, any> = { name, in: 'query', required: required.includes(name) };
+    if (description) {
+      parameter.description = description;
+    }
+    parameter.schema = rest;
+    return parameter;
+  });
+}
+
+function buildResponses(
+  contract: ApiContract,
+  baseName: string,
+  schemas: Record<string, any>
+): Record<string, any> {
+  const responseSchema = contract.responseSchema;
+  if (!responseSchema) {
+    return { '200': { description: STATUS_DESCRIPTIONS['2'] } };
+  }
+
+  if (!isStatusKeyedSchema(responseSchema)) {
+    return { '200': jsonResponse('200', convertSchema(responseSchema, `${baseName}Response`, schemas)) };
+  }
+
+  const responses: Record<string, any> = {};
+  for (const [status, schema] of Object.entries(responseSchema)) {
+    const key = status.toUpperCase() === 'DEFAULT' ? 'default' : status.toUpperCase();
+    responses[key] = key === '204' || key === '304'
+      ? { description: describeStatus(key) }
+      : jsonResponse(key, convertSchema(schema, `${baseName}Response${key === 'default' ? 'Default' : key}`, schemas));
+  }
+  return responses;
+}
+
+function jsonResponse(status: string, schema: any): Record<string, any> {
+  return {
+    description: describeStatus(status),
+    content: { 'application/json': { schema } }
+  };
+}
+
+function describeStatus(status: string): string {
+  return STATUS_DESCRIPTIONS[status === 'default' ? 'default' : status[0]] || STATUS_DESCRIPTIONS.default;
+}
+
+/**
+ * Converts a draft-07 contract schema to an OpenAPI 3.1 schema. Local
+ * `definitions` become named component schemas and their `$ref`s are
+ * rewritten; other local refs are inlined.
+ */
+function convertSchema(schema: any, name: string, schemas: Record<string, any>): any {
+  const definitions: Record<string, any> = schema?.definitions || {};
+  const componentNames: Record<string, string> = {};
+  for (const definition of Object.keys(definitions)) {
+    componentNames[definition] = uniqueName(`${name}${pascalCase(definition)}`, schemas);
+    schemas[componentNames[definition]] = {};
+  }
+
+  const convert = (node: any, resolving: Set<string>): any => {
+    if (Array.isArray(node)) {
+      return node.map(item => convert(item, resolving));
+    }
+    if (node === null || typeof node !== 'object') {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string') {
+      const match = /^#\/definitions\/([^/]+)$/.exec(node.$ref);
+      const definition = match && decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (definition && componentNames[definition]) {
+        return { $ref: `#/components/schemas/${componentNames[definition]}` };
+      }
+      const target = resolving.has(node.$ref) ? undefined : resolveLocalRef(schema, node.$ref);
+      return target === undefined ? {} : convert(target, new Set([...resolving, node.$ref]));
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$schema' || key === '$id' || key === 'definitions') {
+        continue;
+      }
+      if (key === 'items' && Array.isArray(value)) {
+        // Draft-07 tuples are expressed with prefixItems in 2020-12
+        result.prefixItems = convert(value, resolving);
+        if (node.additionalItems !== undefined) {
+          result.items = convert(node.additionalItems, resolving);
+        }
+      } else if (key === 'additionalItems') {
+        continue;
+      } else if (key === 'dependencies' && value && typeof value === 'object') {
+        for (const [property, dependency] of Object.entries(value as Record<string, any>)) {
+          const target = Array.isArray(dependency) ? 'dependentRequired' : 'dependentSchemas';
+          result[target] = result[target] || {};
+          result[target][property] = convert(dependency, resolving);
+        }
+      } else if (['properties', 'patternProperties'].includes(key) && value && typeof value === 'object') {
+        result[key] = Object.fromEntries(
+          Object.entries(value as Record<string, any>).map(([property, child]) => [property, convert(child, resolving)])
+        );
+      } else {
+        result[key] = convert(value, resolving);
+      }
+    }
+    return result;
+  };
+
+  for (const [definition, body] of Object.entries(definitions)) {
+    schemas[componentNames[definition]] = convert(body, new Set());
+  }
+  return convert(schema, new Set());
+}
+
+function uniqueName(name: string, schemas: Record<string, any>): string {
+  let candidate = name;
+  for (let suffix = 2; candidate in schemas; suffix++) {
+    candidate = `${name}${suffix}`;
+  }
+  return candidate;
+}
+
+function securityRequirements(auth: AuthRequirements): Array<Record<string, string[]>> {
+  if (auth.type === 'none') {
+    return [];
+  }
+  const requirements: Array<Record<string, string[]>> = [
+    { [SECURITY_SCHEME_NAMES[auth.type]]: [...(auth.scopes || [])] }
+  ];
+  if (auth.optional) {
+    // An empty requirement makes authentication optional
+    requirements.push({});
+  }
+  return requirements;
+}
+
+function securityScheme(
+  type: keyof typeof SECURITY_SCHEME_NAMES,
+  scopes: string[],
+  options: OpenApiExportOptions
+): Record<string, any> {
+  switch (type) {
+    case 'bearer':
+      return { type: 'http', scheme: 'bearer' };
+    case 'basic':
+      return { type: 'http', scheme: 'basic' };
+    case 'api-key':
+      return { type: 'apiKey', ...(options.apiKey || { name: 'X-API-Key', in: 'header' }) };
+    case 'oauth2':
+      return {
+        type: 'oauth2',
+        flows: options.oauth2Flows || {
+          clientCredentials: {
+            tokenUrl: options.oauth2TokenUrl || '/oauth/token',
+            scopes: Object.fromEntries(scopes.map(scope => [scope, scope]))
+          }
+        }
+      };
+  }
+}
@@ -0,0 +1,528 @@
+/**
+ * OpenAPI import: API contracts from an existing OpenAPI 3.x document
+ */
+
+import { ApiContract, AuthRequirements, ContractVersion } from '../types';
+import { parseSemanticVersion } from '../utils';
+import { isBodylessMethod } from '../validation/api';
+import { joinPath } from '../validation/json-schema';
+import { validateApiContract } from '../validation';
+import { splitWords } from '../codegen/naming';
+
+/**
+ * A construct that could not be represented in the imported contracts
+ */
+export interface OpenApiImportWarning {
+  /** Location in the OpenAPI document, e.g. `paths./users.get.parameters[0]` */
+  path: string;
+  /** What was dropped or approximated */
+  message: string;
+}
+
+/**
+ * Options for OpenAPI import
+ */
+export interface OpenApiImportOptions {
+  /** `createdAt`/`updatedAt` of the imported contracts (default now) */
+  timestamp?: string;
+}
+
+/**
+ * Contracts imported from an OpenAPI document
+ */
+export interface OpenApiImportResult {
+  contracts: ApiContract[];
+  warnings: OpenApiImportWarning[];
+}
+
+const CONTRACT_METHODS: ApiContract['method'][] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+const OTHER_METHODS = ['head', 'options', 'trace'];
+
+/**
+ * Schema keywords without a draft-07 equivalent, dropped with a warning
+ */
+const UNSUPPORTED_SCHEMA_KEYWORDS = ['discriminator', 'xml', '$dynamicRef', '$dynamicAnchor', 'unevaluatedProperties', 'unevaluatedItems'];
+
+/**
+ * Imports one API contract per operation of an OpenAPI 3.x document (parsed
+ * from JSON or YAML). Constructs the contract model cannot express are
+ * reported as warnings rather than dropped silently.
+ */
+export function fromOpenApi(document: any, options: OpenApiImportOptions = {}): OpenApiImportResult {
+  const warnings: OpenApiImportWarning[] = [];
+  const contracts: ApiContract[] = [];
+
+  if (document === null || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('OpenAPI document must be an object');
+  }
+  if (typeof document.openapi !== 'string' || !/^3\./.test(document.openapi)) {
+    warnings.push({ path: 'openapi', message: `Expected an OpenAPI 3.x document, found '${document.openapi ?? document.swagger}'` });
+  }
+  if (document.webhooks && Object.keys(document.webhooks).length > 0) {
+    warnings.push({ path: 'webhooks', message: 'Webhooks are not imported' });
+  }
+
+  const context: ImportContext = {
+    document,
+    warnings,
+    version: importVersion(document.info?.version, warnings),
+    timestamp: options.timestamp || new Date().toISOString()
+  };
+
+  for (const [route, rawPathItem] of Object.entries<any>(document.paths || {})) {
+    const itemPath = joinPath('paths', route);
+    const pathItem = resolveComponent(rawPathItem, context, itemPath);
+
+    for (const [key, operation] of Object.entries<any>(pathItem || {})) {
+      const operationPath = joinPath(itemPath, key);
+      if (OTHER_METHODS.includes(key)) {
+        warnings.push({ path: operationPath, message: `HTTP method ${key.toUpperCase()} is not supported by API contracts` });
+        continue;
+      }
+      const method = key.toUpperCase() as ApiContract['method'];
+      if (!CONTRACT_METHODS.includes(method)) {
+        if (key === 'servers') {
+          warnings.push({ path: operationPath, message: 'Path-level servers are not imported' });
+        }
+        continue;
+      }
+
+      const parameters = [...(pathItem.parameters || []), ...(operation.parameters || [])];
+      const contract = importOperation(route, method, operation, parameters, operationPath, context);
+
+      for (const error of validateApiContract(contract).errors) {
+        warnings.push({ path: operationPath, message: `Imported contract '${contract.id}' is invalid: ${error.message}` });
+      }
+      contracts.push(contract);
+    }
+  }
+
+  return { contracts, warnings };
+}
+
+interface ImportContext {
+  document: any;
+  warnings: OpenApiImportWarning[];
+  version: ContractVersion;
+  timestamp: string;
+}
+
+function importOperation(
+  route: string,
+  method: ApiContract['method'],
+  operation: any,
+  rawParameters: any[],
+  path: string,
+  context: ImportContext
+): ApiContract {
+  const { warnings } = context;
+  const id = operation['x-contract-id'] || (operation.operationId
+    ? kebabCase(operation.operationId)
+    : kebabCase(`${method} ${route}`));
+  if (!operation['x-contract-id'] && !operation.operationId) {
+    warnings.push({ path, message: `Operation has no operationId; using '${id}'` });
+  }
+
+  const contract: ApiContract = {
+    id,
+    version: operation['x-contract-version']
+      ? importVersion(operation['x-contract-version'], warnings, joinPath(path, 'x-contract-version'))
+      : { ...context.version },
+    name: operation.summary || operation.operationId || `${method} ${route}`,
+    metadata: {},
+    createdAt: context.timestamp,
+    updatedAt: context.timestamp,
+    kind: 'api',
+    method,
+    path: route
+  };
+
+  if (operation.description) {
+    contract.description = operation.description;
+  }
+  if (context.document.info?.contact?.name) {
+    contract.metadata.author = context.document.info.contact.name;
+  }
+  if (Array.isArray(operation.tags) && operation.tags.length > 0) {
+    contract.metadata.tags = [...operation.tags];
+  }
+  if (operation.externalDocs?.url) {
+    contract.metadata.documentationUrl = operation.externalDocs.url;
+  }
+  if (operation.deprecated === true) {
+    contract.metadata.deprecated = true;
+  }
+
+  const requestSchema = importRequest(method, operation, rawParameters, path, context);
+  if (requestSchema) {
+    contract.requestSchema = requestSchema;
+  }
+  const responseSchema = importResponses(operation.responses, joinPath(path, 'responses'), context);
+  if (responseSchema) {
+    contract.responseSchema = responseSchema;
+  }
+  const auth = importSecurity(operation.security ?? context.document.security, path, context);
+  if (auth) {
+    contract.auth = auth;
+  }
+
+  if (operation.callbacks && Object.keys(operation.callbacks).length > 0) {
+    warnings.push({ path: joinPath(path, 'callbacks'), message: 'Callbacks are not imported' });
+  }
+  if (operation.servers) {
+    warnings.push({ path: joinPath(path, 'servers'), message: 'Operation-level servers are not imported' });
+  }
+
+  return contract;
+}
+
+/**
+ * Builds the request schema: the JSON body, or for GET and DELETE an
+ * object schema of the query parameters
+ */
+function importRequest(
+  method: ApiContract['method'],
+  operation: any,
+  rawParameters: any[],
+  path: string,
+  context: ImportContext
+): Record<string, any> | undefined {
+  const query: Record<string, any> = {};
+  const required: string[] = [];
+
+  rawParameters.forEach((raw, index) => {
+    const parameterPath = joinPath(joinPath(path, 'parameters'), index);
+    const parameter = resolveComponent(raw, context, parameterPath);
+    if (!parameter) {
+      return;
+    }
+    if (parameter.in === 'path') {
+      // Contracts take path parameters from the path template, as strings
+      const { description, ...schema } = parameter.schema || {};
+      if (Object.keys(schema).some(key => key !== 'type' || schema.type !== 'string')) {
+        context.warnings.push({
+          path: joinPath(parameterPath, 'schema'),
+          message: `Schema of path parameter '${parameter.name}' is not imported; contract path parameters are plain strings`
+        });
+      }
+      return;
+    }
+    if (parameter.in !== 'query') {
+      context.warnings.push({ path: parameterPath, message: `${parameter.in} parameter '${parameter.name}' is not imported` });
+      return;
+    }
+    if (!isBodylessMethod(method)) {
+      context.warnings.push({
+        path: parameterPath,
+        message: `Query parameter '${parameter.name}' is not imported; only GET and DELETE contracts describe the query`
+      });
+      return;
+    }
+    const schema = parameter.schema ? { ...parameter.schema } : { type: 'string' };
+    if (parameter.description && !schema.description) {
+      schema.description = parameter.description;
+    }
+    query[parameter.name] = schema;
+    if (parameter.required) {
+      required.push(parameter.name);
+    }
+  });
+
+  if (isBodylessMethod(method)) {
+    if (operation.requestBody) {
+      context.warnings.push({ path: joinPath(path, 'requestBody'), message: `${method} request bodies are not imported` });
+    }
+    if (Object.keys(query).length === 0) {
+      return undefined;
+    }
+    const schema: Record<string, any> = { type: 'object', properties: query };
+    if (required.length > 0) {
+      schema.required = required;
+    }
+    return importSchema(schema, joinPath(path, 'parameters'), context);
+  }
+
+  if (!operation.requestBody) {
+    return undefined;
+  }
+  const bodyPath = joinPath(path, 'requestBody');
+  const body = resolveComponent(operation.requestBody, context, bodyPath);
+  const schema = jsonContentSchema(body?.content, joinPath(bodyPath, 'content'), context);
+  return schema === undefined ? undefined : importSchema(schema, bodyPath, context);
+}
+
+/**
+ * Builds the response schema: a plain schema when only `200` has a body,
+ * otherwise a map keyed by status
+ */
+function importResponses(responses: any, path: string, context: ImportContext): Record<string, any> | undefined {
+  const schemas: Record<string, any> = {};
+
+  for (const [status, raw] of Object.entries<any>(responses || {})) {
+    const responsePath = joinPath(path, status);
+    const response = resolveComponent(raw, context, responsePath);
+    if (!response) {
+      continue;
+    }
+    if (response.headers && Object.keys(response.headers).length > 0) {
+      context.warnings.push({ path: joinPath(responsePath, 'headers'), message: 'Response headers are not imported' });
+    }
+    if (response.links && Object.keys(response.links).length > 0) {
+      context.warnings.push({ path: joinPath(responsePath, 'links'), message: 'Response links are not imported' });
+    }
+    const schema = jsonContentSchema(response.content, joinPath(responsePath, 'content'), context);
+    if (schema !== undefined) {
+      schemas[status] = importSchema(schema, responsePath, context);
+    }
+  }
+
+  const statuses = Object.keys(schemas);
+  if (statuses.length === 0) {
+    return undefined;
+  }
+  return statuses.length === 1 && statuses[0] === '200' ? schemas['200'] : schemas;
+}
+
+/**
+ * Picks the schema of the JSON media type, warning about any other media types
+ */
+function jsonContentSchema(content: any, path: string, context: ImportContext): any {
+  let schema: any;
+  for (const [mediaType, media] of Object.entries<any>(content || {})) {
+    if (schema === undefined && /^application\/([\w.-]+\+)?json\b/.test(mediaType)) {
+      schema = media?.schema ?? {};
+    } else {
+      context.warnings.push({ path: joinPath(path, mediaType), message: `Media type '${mediaType}' is not imported` });
+    }
+  }
+  return schema;
+}
+
+/**
+ * Maps the first alternative of a security requirement list to AuthRequirements
+ */
+function importSecurity(security: any, path: string, context: ImportContext): AuthRequirements | undefined {
+  if (!Array.isArray(security)) {
+    return undefined;
+  }
+  if (security.length === 0) {
+    return { type: 'none' };
+  }
+
+  const alternatives = security.filter((requirement: any) => Object.keys(requirement || {}).length > 0);
+  if (alternatives.length === 0) {
+    return { type: 'none' };
+  }
+  const optional = alternatives.length < security.length;
+  const securityPath = joinPath(path, 'security');
+
+  const [requirement] = alternatives;
+  const names = Object.keys(requirement);
+  if (alternatives.length > 1 || names.length > 1) {
+    context.warnings.push({
+      path: securityPath,
+      message: `Only the first security scheme ('${names[0]}') is imported; contracts describe a single auth type`
+    });
+  }
+
+  const schemeName = names[0];
+  const scheme = resolveComponent(context.document.components?.securitySchemes?.[schemeName], context, securityPath);
+  const type = authType(scheme);
+  if (!type) {
+    context.warnings.push({
+      path: securityPath,
+      message: scheme
+        ? `Security scheme '${schemeName}' of type '${scheme.type}${scheme.scheme ? ` ${scheme.scheme}` : ''}' is not supported`
+        : `Security scheme '${schemeName}' is not defined`
+    });
+    return undefined;
+  }
+
+  const auth: AuthRequirements = { type };
+  const scopes: string[] = requirement[schemeName] || [];
+  if (scopes.length > 0) {
+    auth.scopes = [...scopes];
+  }
+  if (optional) {
+    auth.optional = true;
+  }
+  return auth;
+}
+
+function authType(scheme: any): AuthRequirements['type'] | undefined {
+  switch (scheme?.type) {
+    case 'http': {
+      const name = String(scheme.scheme || '').toLowerCase();
+      return name === 'bearer' ? 'bearer' : name === 'basic' ? 'basic' : undefined;
+    }
+    case 'apiKey':
+      return 'api-key';
+    case 'oauth2':
+    case 'openIdConnect':
+      return 'oauth2';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Converts an OpenAPI schema to a self-contained draft-07 schema: referenced
+ * component schemas are copied into `definitions` and 3.x keywords are
+ * mapped to their draft-07 equivalents
+ */
+function importSchema(schema: any, path: string, context: ImportContext): Record<string, any> {
+  const definitions: Record<string, any> = {};
+  const pending: string[] = [];
+
+  const convert = (node: any, nodePath: string): any => {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => convert(item, joinPath(nodePath, index)));
+    }
+    if (node === null || typeof node !== 'object') {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string') {
+      const match = /^#\/components\/schemas\/([^/]+)$/.exec(node.$ref);
+      const name = match ? decodePointer(match[1]) : undefined;
+      if (name !== undefined) {
+        if (!(name in definitions) && !pending.includes(name)) {
+          pending.push(name);
+        }
+        return { $ref: `#/definitions/${encodePointer(name)}` };
+      }
+      context.warnings.push({ path: nodePath, message: `Reference '${node.$ref}' is not supported and was replaced by an empty schema` });
+      return {};
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries<any>(node)) {
+      const keyPath = joinPath(nodePath, key);
+      if (UNSUPPORTED_SCHEMA_KEYWORDS.includes(key)) {
+        context.warnings.push({ path: keyPath, message: `Schema keyword '${key}' is not supported` });
+      } else if (['properties', 'patternProperties', 'dependentSchemas'].includes(key) && value && typeof value === 'object') {
+        // Keys of these maps are property names, not keywords
+        const children = Object.fromEntries(
+          Object.entries<any>(value).map(([property, child]) => [property, convert(child, joinPath(keyPath, property))])
+        );
+        if (key === 'dependentSchemas') {
+          result.dependencies = { ...result.dependencies, ...children };
+        } else {
+          result[key] = children;
+        }
+      } else if (key === 'dependentRequired') {
+        result.dependencies = { ...result.dependencies, ...value };
+      } else if (key === 'nullable') {
+        // OpenAPI 3.0 nullability
+        if (value === true && node.type !== undefined) {
+          result.type = [...new Set([...(Array.isArray(node.type) ? node.type : [node.type]), 'null'])];
+        }
+      } else if (key === 'type' && result.type !== undefined) {
+        continue;
+      } else if (key === 'example') {
+        result.examples = [value];
+      } else if (key === 'prefixItems') {
+        result.items = convert(value, keyPath);
+        if (node.items !== undefined) {
+          result.additionalItems = convert(node.items, joinPath(nodePath, 'items'));
+        }
+      } else if (key === 'items' && Array.isArray(node.prefixItems)) {
+        continue;
+      } else if (key === '$defs' || key === 'definitions') {
+        context.warnings.push({ path: keyPath, message: `Embedded '${key}' are not imported` });
+      } else if (key === 'externalDocs') {
+        continue;
+      } else {
+        result[key] = convert(value, keyPath);
+      }
+    }
+    if (node.nullable === true && node.type === undefined) {
+      context.warnings.push({ path: joinPath(nodePath, 'nullable'), message: "'nullable' without a 'type' is ignored" });
+    }
+    return result;
+  };
+
+  const converted = convert(schema, path);
+  while (pending.length > 0) {
+    const name = pending.shift() as string;
+    const componentPath = joinPath('components.schemas', name);
+    const component = context.document.components?.schemas?.[name];
+    if (component === undefined) {
+      context.warnings.push({ path: componentPath, message: `Schema '${name}' is not defined` });
+      definitions[name] = {};
+    } else {
+      // Reserve the name first so self-references are not queued again
+      definitions[name] = {};
+      definitions[name] = convert(component, componentPath);
+    }
+  }
+
+  return Object.keys(definitions).length > 0 ? { ...converted, definitions } : converted;
+}
+
+/**
+ * Follows a `#/components/...` reference of a response, request body,
+ * parameter or path item
+ */
+function resolveComponent(value: any, context: ImportContext, path: string, seen: string[] = []): any {
+  if (!value || typeof value.$ref !== 'string') {
+    return value;
+  }
+  if (!value.$ref.startsWith('#/') || seen.includes(value.$ref)) {
+    context.warnings.push({ path, message: `Reference '${value.$ref}' could not be resolved` });
+    return undefined;
+  }
+
+  let target = context.document;
+  for (const segment of value.$ref.slice(2).split('/')) {
+    const key = decodePointer(segment);
+    target = key === undefined ? undefined : target?.[key];
+  }
+  if (target === undefined) {
+    context.warnings.push({ path, message: `Reference '${value.$ref}' could not be resolved` });
+    return undefined;
+  }
+  return resolveComponent(target, context, path, [...seen, value.$ref]);
+}
+
+function importVersion(
+  version: any,
+  warnings: OpenApiImportWarning[],
+  path: string = 'info.version'
+): ContractVersion {
+  const text = String(version ?? '').trim().replace(/^v/i, '');
+  try {
+    return parseSemanticVersion(text);
+  } catch {
+    // Pad short versions such as `2` or `1.4`
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(text);
+    const padded: ContractVersion = match
+      ? { major: Number(match[1]), minor: Number(match[2] || 0), patch: 0 }
+      : { major: 1, minor: 0, patch: 0 };
+    warnings.push({
+      path,
+      message: `Version '${version}' is not a semantic version; using ${padded.major}.${padded.minor}.${padded.patch}`
+    });
+    return padded;
+  }
+}
+
+function kebabCase(text: string): string {
+  return splitWords(text).map(word => word.toLowerCase()).join('-');
+}
+
+/**
+ * Decodes a JSON pointer segment; `undefined` when its percent-encoding is
+ * malformed, so the reference is reported instead of thrown
+ */
+function decodePointer(segment: string): string | undefined {
+  try {
+    return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+  } catch {
+    return undefined;
+  }
+}
+
+function encodePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,6 @@
+/**
+ * OpenAPI import and export for API contracts
+ */
+
+export * from './export';
+export * from './import';
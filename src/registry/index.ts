@@ -0,0 +1,216 @@
+/**
+ * In-memory registry of versioned contracts
+ */
+
+import {
+  Contract,
+  ContractVersion,
+  EventContract,
+  ApiContract,
+  DataModelContract
+} from '../types';
+import {
+  compareVersions,
+  parseSemanticVersion,
+  toSemanticVersion,
+  isContractDeprecated,
+  sortContractsByVersion,
+  satisfies,
+  RangeOptions,
+  isEventContract,
+  isApiContract,
+  isDataModelContract
+} from '../utils';
+
+/**
+ * Stores many versions of many contracts and indexes them for lookup by
+ * id, version and contract kind
+ */
+export class ContractRegistry {
+  /** Versions of each contract, keyed by id and kept newest first */
+  private readonly contracts = new Map<string, Contract[]>();
+
+  constructor(contracts: Contract[] = []) {
+    this.registerAll(contracts);
+  }
+
+  /**
+   * Number of registered contract versions
+   */
+  get size(): number {
+    let total = 0;
+    for (const versions of this.contracts.values()) {
+      total += versions.length;
+    }
+    return total;
+  }
+
+  /**
+   * Registers a contract version.
+   * Throws if a contract with the same id and version is already registered;
+   * build metadata is ignored when comparing versions.
+   */
+  register(contract: Contract): this {
+    const versions = this.contracts.get(contract.id) || [];
+
+    if (versions.some(existing => compareVersions(existing.version, contract.version) === 0)) {
+      throw new Error(
+        `Contract '${contract.id}' version ${toSemanticVersion(contract.version)} is already registered`
+      );
+    }
+
+    this.contracts.set(contract.id, sortContractsByVersion([...versions, contract]));
+    return this;
+  }
+
+  /**
+   * Registers several contract versions
+   */
+  registerAll(contracts: Contract[]): this {
+    for (const contract of contracts) {
+      this.register(contract);
+    }
+    return this;
+  }
+
+  /**
+   * Removes one version of a contract, or every version when none is given.
+   * Returns whether anything was removed.
+   */
+  unregister(id: string, version?: ContractVersion | string): boolean {
+    const versions = this.contracts.get(id);
+    if (!versions) {
+      return false;
+    }
+
+    if (version === undefined) {
+      return this.contracts.delete(id);
+    }
+
+    const target = normalizeVersion(version);
+    const remaining = versions.filter(contract => compareVersions(contract.version, target) !== 0);
+    if (remaining.length === versions.length) {
+      return false;
+    }
+
+    if (remaining.length === 0) {
+      this.contracts.delete(id);
+    } else {
+      this.contracts.set(id, remaining);
+    }
+    return true;
+  }
+
+  /**
+   * Whether a contract id, or a specific version of it, is registered
+   */
+  has(id: string, version?: ContractVersion | string): boolean {
+    return version === undefined ? this.contracts.has(id) : this.get(id, version) !== undefined;
+  }
+
+  /**
+   * Gets an exact version of a contract
+   */
+  get(id: string, version: ContractVersion | string): Contract | undefined {
+    const target = normalizeVersion(version);
+    return this.getVersions(id).find(contract => compareVersions(contract.version, target) === 0);
+  }
+
+  /**
+   * Gets every registered version of a contract, newest first
+   */
+  getVersions(id: string): Contract[] {
+    return [...(this.contracts.get(id) || [])];
+  }
+
+  /**
+   * Gets the latest version of a contract
+   */
+  getLatest(id: string): Contract | undefined {
+    return this.contracts.get(id)?.[0];
+  }
+
+  /**
+   * Gets the latest version of a contract that is not deprecated
+   */
+  getLatestActive(id: string): Contract | undefined {
+    return this.contracts.get(id)?.find(contract => !isContractDeprecated(contract));
+  }
+
+  /**
+   * Gets the latest version of a contract that satisfies a version range,
+   * e.g. `^1.2.0`
+   */
+  getLatestSatisfying(id: string, range: string, options: RangeOptions = {}): Contract | undefined {
+    return this.contracts.get(id)?.find(contract => satisfies(contract.version, range, options));
+  }
+
+  /**
+   * Lists registered contract ids
+   */
+  ids(): string[] {
+    return [...this.contracts.keys()];
+  }
+
+  /**
+   * Lists every registered contract version
+   */
+  getAll(): Contract[] {
+    return [...this.contracts.values()].flat();
+  }
+
+  /**
+   * Gets every event contract version for an event type, newest first
+   */
+  getEventContracts(eventType: string): EventContract[] {
+    return sortContractsByVersion(
+      this.getAll().filter(isEventContract).filter(contract => contract.eventType === eventType)
+    );
+  }
+
+  /**
+   * Gets the latest event contract for an event type
+   */
+  findEventContract(eventType: string): EventContract | undefined {
+    return this.getEventContracts(eventType)[0];
+  }
+
+  /**
+   * Gets every API contract version for a method and path, newest first
+   */
+  getApiContracts(method: string, path: string): ApiContract[] {
+    const upperMethod = method.toUpperCase();
+    return sortContractsByVersion(
+      this.getAll()
+        .filter(isApiContract)
+        .filter(contract => contract.method === upperMethod && contract.path === path)
+    );
+  }
+
+  /**
+   * Gets the latest API contract for a method and path
+   */
+  findApiContract(method: string, path: string): ApiContract | undefined {
+    return this.getApiContracts(method, path)[0];
+  }
+
+  /**
+   * Gets every data model contract version for a model name, newest first
+   */
+  getDataModelContracts(modelName: string): DataModelContract[] {
+    return sortContractsByVersion(
+      this.getAll().filter(isDataModelContract).filter(contract => contract.modelName === modelName)
+    );
+  }
+
+  /**
+   * Gets the latest data model contract for a model name
+   */
+  findDataModelContract(modelName: string): DataModelContract | undefined {
+    return this.getDataModelContracts(modelName)[0];
+  }
+}
+
+function normalizeVersion(version: ContractVersion | string): ContractVersion {
+  return typeof version === 'string' ? parseSemanticVersion(version) : version;
+}
@@ -101,6 +101,13 @@ export const baseContractSchema = {
         deprecationReason: {
           type: 'string',
           description: 'Reason for deprecation'
+        },
+        suppressLint: {
+          type: 'array',
+          items: {
+            type: 'string'
+          },
+          description: 'Lint rule ids suppressed for this contract'
         }
       }
     }
@@ -118,6 +125,10 @@ export const eventContractSchema = {
       type: 'object',
       required: ['eventType', 'payload'],
       properties: {
+        kind: {
+          const: 'event',
+          description: 'Contract kind discriminant'
+        },
         eventType: {
           type: 'string',
           pattern: '^[a-zA-Z0-9._-]+$',
@@ -134,6 +145,8 @@ export const eventContractSchema = {
     }
   ],
   definitions: {
+    // BaseContract's own $refs resolve against this document's root
+    ...baseContractSchema.definitions,
     BaseContract: baseContractSchema,
     EventMetadata: {
       type: 'object',
@@ -172,6 +185,10 @@ export const apiContractSchema = {
       type: 'object',
       required: ['method', 'path'],
       properties: {
+        kind: {
+          const: 'api',
+          description: 'Contract kind discriminant'
+        },
         method: {
           type: 'string',
           enum: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
@@ -197,6 +214,7 @@ export const apiContractSchema = {
     }
   ],
   definitions: {
+    ...baseContractSchema.definitions,
     BaseContract: baseContractSchema,
     AuthRequirements: {
       type: 'object',
@@ -234,6 +252,10 @@ export const dataModelContractSchema = {
       type: 'object',
       required: ['modelName', 'fields'],
       properties: {
+        kind: {
+          const: 'data-model',
+          description: 'Contract kind discriminant'
+        },
         modelName: {
           type: 'string',
           pattern: '^[A-Z][a-zA-Z0-9]*$',
@@ -253,6 +275,7 @@ export const dataModelContractSchema = {
     }
   ],
   definitions: {
+    ...baseContractSchema.definitions,
     BaseContract: baseContractSchema,
     FieldDefinition: {
       type: 'object',
@@ -279,6 +302,16 @@ export const dataModelContractSchema = {
             $ref: '#/definitions/ValidationRule'
           },
           description: 'Validation rules for the field'
+        },
+        properties: {
+          type: 'object',
+          additionalProperties: {
+            $ref: '#/definitions/FieldDefinition'
+          },
+          description: 'Nested field definitions for object fields'
+        },
+        items: {
+          $ref: '#/definitions/FieldDefinition'
         }
       }
     },
@@ -357,6 +390,64 @@ export const dataModelContractSchema = {
   }
 };
 
+/**
+ * JSON Schema for EventEnvelope validation
+ */
+export const eventEnvelopeSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  type: 'object',
+  required: ['id', 'eventType', 'contractId', 'contractVersion', 'emittedAt', 'priority', 'payload'],
+  properties: {
+    id: {
+      type: 'string',
+      minLength: 1,
+      description: 'Unique identifier of this event'
+    },
+    eventType: {
+      type: 'string',
+      pattern: '^[a-zA-Z0-9._-]+$',
+      description: 'Event type identifier'
+    },
+    contractId: {
+      type: 'string',
+      pattern: '^[a-zA-Z0-9_-]+$',
+      description: 'Id of the event contract the payload conforms to'
+    },
+    contractVersion: {
+      type: 'string',
+      pattern: '^\\d+\\.\\d+\\.\\d+(-[0-9A-Za-z.-]+)?(\\+[0-9A-Za-z.-]+)?$',
+      description: 'Semantic version of the event contract'
+    },
+    emittedAt: {
+      type: 'string',
+      format: 'date-time',
+      description: 'ISO 8601 timestamp when the event was emitted'
+    },
+    correlationId: {
+      type: 'string',
+      description: 'Id shared by every event in one flow'
+    },
+    causationId: {
+      type: 'string',
+      description: 'Id of the event that caused this one'
+    },
+    priority: {
+      type: 'string',
+      enum: ['low', 'normal', 'high', 'critical'],
+      description: 'Event priority level'
+    },
+    expiresAt: {
+      type: 'string',
+      format: 'date-time',
+      description: 'ISO 8601 timestamp after which the event should be dropped'
+    },
+    payload: {
+      type: 'object',
+      description: 'Event payload'
+    }
+  }
+};
+
 /**
  * Export all schemas
  */
@@ -364,5 +455,6 @@ export const schemas = {
   baseContract: baseContractSchema,
   eventContract: eventContractSchema,
   apiContract: apiContractSchema,
-  dataModelContract: dataModelContractSchema
+  dataModelContract: dataModelContractSchema,
+  eventEnvelope: eventEnvelopeSchema
 };
@@ -0,0 +1,487 @@
+/**
+ * Serving API contracts from Node's http module
+ */
+
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import type { ApiContract, AuthRequirements, InferRequest } from '../types';
+import {
+  ValidationError,
+  coerceQuery,
+  isBodylessMethod,
+  validateApiRequest,
+  validateApiResponse
+} from '../validation';
+import { ApiValidationError } from '../client';
+
+/**
+ * Query string values as parsed from the URL; repeated keys give arrays
+ */
+export type QueryParameters = Record<string, string | string[]>;
+
+type HandlerQuery<C> = C extends { readonly method: 'GET' | 'DELETE' }
+  ? InferRequest<C> extends undefined ? QueryParameters : InferRequest<C>
+  : QueryParameters;
+
+type HandlerBody<C> = C extends { readonly method: 'GET' | 'DELETE' }
+  ? undefined
+  : InferRequest<C> extends undefined ? unknown : InferRequest<C>;
+
+/**
+ * A validated request, as passed to a handler
+ */
+export interface ApiRequestContext<C extends ApiContract = ApiContract> {
+  contract: C;
+  /** Decoded path parameters */
+  params: Record<string, string>;
+  /** Query string; for GET and DELETE converted to the types in `requestSchema` */
+  query: HandlerQuery<C>;
+  /** Decoded JSON body */
+  body: HandlerBody<C>;
+  headers: IncomingHttpHeaders;
+  /** Principal returned by the credential verifier, when credentials were given */
+  principal?: unknown;
+  request: IncomingMessage;
+}
+
+/**
+ * What a handler returns. The status defaults to 200, or 204 without a
+ * body. Bodies are sent as JSON unless a string is returned with its own
+ * `content-type` header.
+ */
+export interface ApiResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Handles requests for one contract
+ */
+export type ApiHandler<C extends ApiContract = ApiContract> =
+  (context: ApiRequestContext<C>) => ApiResponse | Promise<ApiResponse>;
+
+/**
+ * Credentials found on a request. `oauth2` contracts are presented as
+ * bearer tokens.
+ */
+export type PresentedCredentials =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'api-key'; apiKey: string };
+
+/**
+ * Accepted credentials. `scopes` are checked against the contract's
+ * `auth.scopes`.
+ */
+export interface CredentialVerification {
+  principal?: unknown;
+  scopes?: string[];
+}
+
+/**
+ * Checks presented credentials. Returning a falsy value rejects them.
+ */
+export type CredentialVerifier = (
+  credentials: PresentedCredentials,
+  auth: AuthRequirements,
+  request: IncomingMessage
+) => CredentialVerification | false | null | undefined | Promise<CredentialVerification | false | null | undefined>;
+
+/**
+ * Options for an ApiRouter
+ */
+export interface ApiRouterOptions {
+  /** Required when any route's contract needs authentication */
+  verifyCredentials?: CredentialVerifier;
+  /** Header carrying API keys (default `x-api-key`) */
+  apiKeyHeader?: string;
+  /**
+   * Check handler responses against `responseSchema` and answer 500 when
+   * they do not match. Meant for development and tests.
+   */
+  validateResponses?: boolean;
+  /** Largest request body accepted, in bytes (default 1 MiB) */
+  maxBodySize?: number;
+  /** Called with handler errors and, when validating, response mismatches */
+  onError?: (error: unknown, request: IncomingMessage) => void;
+}
+
+/**
+ * Passes control to the next middleware, in the style of Express
+ */
+export type NextFunction = (error?: unknown) => void;
+
+interface Route {
+  contract: ApiContract;
+  handler: ApiHandler<any>;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+interface RouteMatch {
+  route: Route;
+  rawParams: string[];
+}
+
+/** Answer sent without reaching the handler */
+class RequestRejection {
+  constructor(
+    public readonly status: number,
+    public readonly body: Record<string, unknown>,
+    public readonly headers: Record<string, string> = {}
+  ) {}
+}
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Routes HTTP requests to handlers by API contract. Each request is matched
+ * on method and templated path, its credentials are checked against the
+ * contract's `auth`, and its path, query and body are validated against the
+ * contract before the handler runs.
+ *
+ * Rejected requests get a JSON body of the form `{ error, errors? }`:
+ * 400 with the ValidationError list for an invalid request, 401 for missing
+ * or rejected credentials, 403 for missing scopes, 404 and 405 for
+ * unmatched requests, and 413 for oversized bodies.
+ */
+export class ApiRouter {
+  private readonly routes: Route[] = [];
+
+  constructor(private readonly options: ApiRouterOptions = {}) {}
+
+  /**
+   * Registers a handler for a contract. Throws when another route has the
+   * same method and path, or when the contract needs authentication and no
+   * credential verifier was given.
+   */
+  route<C extends ApiContract>(contract: C, handler: ApiHandler<C>): this {
+    const path = normalizePath(contract.path);
+    const existing = this.routes.find(route =>
+      route.contract.method === contract.method && normalizePath(route.contract.path) === path
+    );
+    if (existing) {
+      throw new Error(
+        `Route ${contract.method} ${contract.path} of '${contract.id}' is already handled by '${existing.contract.id}'`
+      );
+    }
+    if (contract.auth && contract.auth.type !== 'none' && !this.options.verifyCredentials) {
+      throw new Error(
+        `Route '${contract.id}' requires ${contract.auth.type} authentication but no verifyCredentials option was given`
+      );
+    }
+
+    this.routes.push({ contract, handler, ...compilePath(path) });
+    return this;
+  }
+
+  /**
+   * A request listener for `http.createServer`. Unmatched requests are
+   * answered with 404 (or 405 when only the method differs) and handler
+   * errors with 500.
+   */
+  listener(): (request: IncomingMessage, response: ServerResponse) => void {
+    return (request, response) => {
+      this.handle(request, response).catch(error => {
+        this.options.onError?.(error, request);
+        if (!response.headersSent) {
+          send(response, 500, { error: 'Internal server error' });
+        }
+      });
+    };
+  }
+
+  /**
+   * Middleware for Express-style frameworks. Unmatched requests and handler
+   * errors are passed to `next`. A body already parsed into `request.body`
+   * is used as is.
+   */
+  middleware(): (request: IncomingMessage, response: ServerResponse, next: NextFunction) => void {
+    return (request, response, next) => {
+      this.handle(request, response, next).catch(next);
+    };
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse, next?: NextFunction): Promise<void> {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const method = (request.method || 'GET').toUpperCase();
+    const pathname = normalizePath(url.pathname);
+    const match = this.match(method, pathname);
+
+    if (!match) {
+      if (next) {
+        next();
+        return;
+      }
+      const allowed = this.routes.filter(route => route.pattern.test(pathname)).map(route => route.contract.method);
+      if (allowed.length > 0) {
+        response.setHeader('allow', allowed.join(', '));
+        send(response, 405, { error: `Method ${method} is not allowed for ${pathname}` });
+      } else {
+        send(response, 404, { error: `No route for ${method} ${pathname}` });
+      }
+      return;
+    }
+
+    const { contract, handler } = match.route;
+    let context: ApiRequestContext;
+    try {
+      const principal = await this.authenticate(contract, request);
+      const params = decodeParams(match);
+      const query = parseQuery(url.searchParams);
+      const body = await this.readBody(request, contract);
+
+      const result = validateApiRequest(contract, { params, query, body });
+      if (!result.valid) {
+        throw new RequestRejection(400, { error: 'Invalid request', errors: result.errors });
+      }
+
+      context = {
+        contract,
+        params,
+        query: isBodylessMethod(contract.method) && contract.requestSchema
+          ? coerceQuery(query, contract.requestSchema)
+          : query,
+        body,
+        headers: request.headers,
+        ...(principal !== undefined ? { principal } : {}),
+        request
+      };
+    } catch (error) {
+      if (error instanceof RequestRejection) {
+        send(response, error.status, error.body, error.headers);
+        return;
+      }
+      throw error;
+    }
+
+    const result = await handler(context);
+    const status = result.status ?? (result.body === undefined ? 204 : 200);
+
+    if (this.options.validateResponses) {
+      const check = validateApiResponse(contract, status, result.body);
+      if (!check.valid) {
+        this.options.onError?.(new ApiValidationError(contract.id, 'response', check.errors), request);
+        send(response, 500, { error: 'Response does not match contract', errors: check.errors });
+        return;
+      }
+    }
+
+    send(response, status, result.body, result.headers);
+  }
+
+  /**
+   * Picks the matching route with the fewest path parameters, so
+   * `/users/me` wins over `/users/:id`
+   */
+  private match(method: string, pathname: string): RouteMatch | undefined {
+    let best: RouteMatch | undefined;
+    for (const route of this.routes) {
+      if (route.contract.method !== method) {
+        continue;
+      }
+      const found = route.pattern.exec(pathname);
+      if (found && (!best || route.paramNames.length < best.route.paramNames.length)) {
+        best = { route, rawParams: found.slice(1) };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Checks credentials against the contract's auth requirements and
+   * returns the verified principal, if any
+   */
+  private async authenticate(contract: ApiContract, request: IncomingMessage): Promise<unknown> {
+    const auth = contract.auth;
+    if (!auth || auth.type === 'none') {
+      return undefined;
+    }
+
+    const challenge = authChallenge(auth);
+    const credentials = readCredentials(request, auth, this.options.apiKeyHeader || 'x-api-key');
+    if (!credentials) {
+      if (auth.optional) {
+        return undefined;
+      }
+      throw new RequestRejection(401, { error: 'Authentication required' }, challenge);
+    }
+
+    const verification = await this.options.verifyCredentials!(credentials, auth, request);
+    if (!verification) {
+      throw new RequestRejection(401, { error: 'Invalid credentials' }, challenge);
+    }
+
+    const granted = verification.scopes || [];
+    const missing = (auth.scopes || []).filter(scope => !granted.includes(scope));
+    if (missing.length > 0) {
+      throw new RequestRejection(403, { error: `Missing required scopes: ${missing.join(', ')}` });
+    }
+    return verification.principal;
+  }
+
+  /**
+   * Reads and decodes the request body; `undefined` when there is none
+   */
+  private async readBody(request: IncomingMessage, contract: ApiContract): Promise<any> {
+    const parsed = (request as IncomingMessage & { body?: unknown }).body;
+    if (parsed !== undefined) {
+      // Body parsers leave an empty object on requests without a body
+      const empty = typeof parsed === 'object' && parsed !== null && Object.keys(parsed).length === 0;
+      return empty && isBodylessMethod(contract.method) ? undefined : parsed;
+    }
+
+    const limit = this.options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of request) {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk as Buffer;
+      size += buffer.length;
+      if (size > limit) {
+        throw new RequestRejection(413, { error: `Request body exceeds ${limit} bytes` });
+      }
+      chunks.push(buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (text === '') {
+      return undefined;
+    }
+    const contentType = request.headers['content-type'] || '';
+    if (contentType && !contentType.includes('json')) {
+      return text;
+    }
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new RequestRejection(400, {
+        error: 'Invalid request',
+        errors: [{ path: 'body', message: `Invalid JSON: ${(error as Error).message}` }] as ValidationError[]
+      });
+    }
+  }
+}
+
+/**
+ * Compiles a contract path such as `/users/:id` or `/users/{id}` to a
+ * regular expression capturing each parameter
+ */
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const parameter = /:([A-Za-z_][A-Za-z0-9_]*)|\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+  let source = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = parameter.exec(path)) !== null) {
+    source += escapeRegExp(path.slice(last, match.index)) + '([^/]+)';
+    paramNames.push(match[1] || match[2]);
+    last = match.index + match[0].length;
+  }
+  source += escapeRegExp(path.slice(last));
+
+  return { pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Drops a trailing slash, so `/users/` and `/users` match the same route
+ */
+function normalizePath(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, '') || '/' : path;
+}
+
+function decodeParams(match: RouteMatch): Record<string, string> {
+  const params: Record<string, string> = {};
+  match.route.paramNames.forEach((name, index) => {
+    try {
+      params[name] = decodeURIComponent(match.rawParams[index]);
+    } catch {
+      throw new RequestRejection(400, {
+        error: 'Invalid request',
+        errors: [{ path: `params.${name}`, message: `Path parameter '${name}' is not correctly encoded` }] as ValidationError[]
+      });
+    }
+  });
+  return params;
+}
+
+function parseQuery(searchParams: URLSearchParams): QueryParameters {
+  const query: QueryParameters = {};
+  for (const name of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(name);
+    query[name] = values.length === 1 ? values[0] : values;
+  }
+  return query;
+}
+
+/**
+ * Finds the credentials for an auth type on a request
+ */
+function readCredentials(
+  request: IncomingMessage,
+  auth: AuthRequirements,
+  apiKeyHeader: string
+): PresentedCredentials | undefined {
+  const authorization = request.headers.authorization || '';
+
+  switch (auth.type) {
+    case 'bearer':
+    case 'oauth2': {
+      const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization);
+      return match ? { type: 'bearer', token: match[1] } : undefined;
+    }
+    case 'basic': {
+      const match = /^Basic\s+(\S+)\s*$/i.exec(authorization);
+      if (!match) {
+        return undefined;
+      }
+      const decoded = Buffer.from(match[1], 'base64').toString('utf-8');
+      const separator = decoded.indexOf(':');
+      if (separator === -1) {
+        return undefined;
+      }
+      return { type: 'basic', username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+    }
+    case 'api-key': {
+      const header = request.headers[apiKeyHeader.toLowerCase()];
+      const apiKey = Array.isArray(header) ? header[0] : header;
+      return apiKey ? { type: 'api-key', apiKey } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function authChallenge(auth: AuthRequirements): Record<string, string> {
+  switch (auth.type) {
+    case 'bearer':
+    case 'oauth2':
+      return { 'www-authenticate': 'Bearer' };
+    case 'basic':
+      return { 'www-authenticate': 'Basic' };
+    default:
+      return {};
+  }
+}
+
+function send(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  const hasContentType = Object.keys(headers).some(name => name.toLowerCase() === 'content-type');
+  let payload: string | undefined;
+  if (body !== undefined) {
+    if (typeof body === 'string' && hasContentType) {
+      payload = body;
+    } else {
+      payload = JSON.stringify(body);
+      if (!hasContentType) {
+        headers = { ...headers, 'content-type': 'application/json' };
+      }
+    }
+  }
+
+  response.writeHead(status, headers);
+  response.end(payload);
+}
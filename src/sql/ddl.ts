@@ -0,0 +1,127 @@
+/**
+ * SQL DDL generation from data model contracts
+ */
+
+import { DataModelContract, ForeignKey } from '../types';
+import {
+  SqlGeneratorOptions,
+  columnName,
+  constraintName,
+  createIndexStatements,
+  createTableStatement,
+  foreignKeyClause,
+  quoteIdentifier,
+  tableName
+} from './dialect';
+
+export { SqlDialect, SqlGeneratorOptions } from './dialect';
+
+/**
+ * Generates the CREATE TABLE statement for a model, followed by CREATE
+ * INDEX statements for its non-unique indexes
+ */
+export function generateCreateTable(model: DataModelContract, options: SqlGeneratorOptions = {}): string {
+  return [
+    createTableStatement(model, model.constraints?.foreignKeys || [], options),
+    ...createIndexStatements(model, options)
+  ].join('\n\n');
+}
+
+/**
+ * Generates the DDL for a set of models, with tables ordered so that each
+ * is created after the tables its foreign keys reference. In PostgreSQL,
+ * foreign keys that form a cycle are added with ALTER TABLE once every
+ * table exists.
+ */
+export function generateSqlSchema(models: DataModelContract[], options: SqlGeneratorOptions = {}): string {
+  const { order, deferred } = sortModelsByDependencies(models);
+  const dialect = options.dialect || 'postgres';
+  const statements: string[] = [];
+  const alterations: string[] = [];
+
+  for (const model of order) {
+    const foreignKeys = (model.constraints?.foreignKeys || []).map(foreignKey => resolveReference(foreignKey, models));
+    const inline = dialect === 'postgres'
+      ? foreignKeys.filter(foreignKey => !deferred.includes(foreignKey.original))
+      : foreignKeys;
+    statements.push(
+      createTableStatement(model, inline.map(foreignKey => foreignKey.resolved), options),
+      ...createIndexStatements(model, options)
+    );
+
+    if (dialect === 'postgres') {
+      const table = tableName(model.modelName, options);
+      for (const foreignKey of foreignKeys.filter(candidate => deferred.includes(candidate.original))) {
+        alterations.push(
+          `ALTER TABLE ${quoteIdentifier(table)} ADD CONSTRAINT ` +
+          `${quoteIdentifier(constraintName(table, columnName(foreignKey.resolved.field, options), 'fkey'))} ` +
+          `${foreignKeyClause(foreignKey.resolved, options)};`
+        );
+      }
+    }
+  }
+
+  return [...statements, ...alterations].join('\n\n');
+}
+
+/**
+ * Orders models so that referenced models come before the models that
+ * reference them, keeping the input order otherwise. Self-references are
+ * ignored; foreign keys that close a cycle are returned as `deferred`.
+ */
+export function sortModelsByDependencies(models: DataModelContract[]): {
+  order: DataModelContract[];
+  deferred: ForeignKey[];
+} {
+  const order: DataModelContract[] = [];
+  const deferred: ForeignKey[] = [];
+  const state = new Map<DataModelContract, 'visiting' | 'done'>();
+
+  const visit = (model: DataModelContract) => {
+    state.set(model, 'visiting');
+    for (const foreignKey of model.constraints?.foreignKeys || []) {
+      const target = findModel(models, foreignKey.references);
+      if (!target || target === model) {
+        continue;
+      }
+      const targetState = state.get(target);
+      if (targetState === 'visiting') {
+        deferred.push(foreignKey);
+      } else if (targetState === undefined) {
+        visit(target);
+      }
+    }
+    state.set(model, 'done');
+    order.push(model);
+  };
+
+  for (const model of models) {
+    if (!state.has(model)) {
+      visit(model);
+    }
+  }
+
+  return { order, deferred };
+}
+
+/**
+ * Finds the model a foreign key references, by model name or contract id
+ */
+export function findModel(models: DataModelContract[], reference: string): DataModelContract | undefined {
+  return models.find(model => model.modelName === reference) || models.find(model => model.id === reference);
+}
+
+/**
+ * Points a foreign key at the referenced model's name when it names the
+ * model by contract id
+ */
+function resolveReference(
+  foreignKey: ForeignKey,
+  models: DataModelContract[]
+): { original: ForeignKey; resolved: ForeignKey } {
+  const target = findModel(models, foreignKey.references);
+  return {
+    original: foreignKey,
+    resolved: target ? { ...foreignKey, references: target.modelName } : foreignKey
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * SQL dialect helpers shared by DDL and migration generation
+ */
+
+import { DataModelContract, FieldDefinition, ForeignKey } from '../types';
+import { toSemanticVersion } from '../utils';
+import { normalizeFieldDefinition } from '../validation/fields';
+import { splitWords } from '../codegen/naming';
+
+/**
+ * Supported SQL dialects
+ */
+export type SqlDialect = 'postgres' | 'sqlite';
+
+/**
+ * Options for SQL generation
+ */
+export interface SqlGeneratorOptions {
+  /** Target dialect (default 'postgres') */
+  dialect?: SqlDialect;
+  /** Table and column naming: `snake` converts `createdAt` to `created_at` (default), `preserve` keeps names */
+  naming?: 'snake' | 'preserve';
+  /** Field used as the primary key when a model has it (default 'id') */
+  primaryKey?: string;
+  /** Emit `IF NOT EXISTS` on CREATE TABLE and CREATE INDEX */
+  ifNotExists?: boolean;
+}
+
+/**
+ * Quotes an identifier, doubling embedded quotes
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Name of the table storing a model's records
+ */
+export function tableName(modelName: string, options: SqlGeneratorOptions): string {
+  return applyNaming(modelName, options);
+}
+
+/**
+ * Name of the column storing a field
+ */
+export function columnName(field: string, options: SqlGeneratorOptions): string {
+  return applyNaming(field, options);
+}
+
+function applyNaming(name: string, options: SqlGeneratorOptions): string {
+  return options.naming === 'preserve' ? name : splitWords(name).map(word => word.toLowerCase()).join('_');
+}
+
+/**
+ * Name of a table constraint or index, following PostgreSQL's conventions
+ * (`user_email_key`, `user_email_idx`, `post_author_id_fkey`)
+ */
+export function constraintName(table: string, column: string, suffix: 'key' | 'idx' | 'fkey' | 'check'): string {
+  return `${table}_${column}_${suffix}`;
+}
+
+/**
+ * The field used as the model's primary key, if it has one
+ */
+export function primaryKeyField(model: DataModelContract, options: SqlGeneratorOptions): string | undefined {
+  const name = options.primaryKey || 'id';
+  return model.fields[name] ? name : undefined;
+}
+
+/**
+ * Column type of a field in the given dialect
+ */
+export function columnType(raw: FieldDefinition | string, dialect: SqlDialect): string {
+  const field = normalizeFieldDefinition(raw);
+
+  if (dialect === 'sqlite') {
+    switch (field.type) {
+      case 'number':
+        return 'REAL';
+      case 'integer':
+      case 'boolean':
+        return 'INTEGER';
+      default:
+        // Strings, ISO 8601 dates, JSON and references
+        return 'TEXT';
+    }
+  }
+
+  switch (field.type) {
+    case 'string': {
+      const max = (field.validation || []).find(rule => rule.type === 'max');
+      return max && Number.isInteger(max.value) ? `VARCHAR(${max.value})` : 'TEXT';
+    }
+    case 'number':
+      return 'DOUBLE PRECISION';
+    case 'integer':
+      return 'INTEGER';
+    case 'boolean':
+      return 'BOOLEAN';
+    case 'date':
+      return 'TIMESTAMPTZ';
+    case 'object':
+    case 'array':
+      return 'JSONB';
+    default:
+      return 'TEXT';
+  }
+}
+
+/**
+ * Column definition as used in CREATE TABLE and ADD COLUMN
+ */
+export function columnDefinition(
+  name: string,
+  raw: FieldDefinition | string,
+  options: SqlGeneratorOptions,
+  primaryKey: boolean = false
+): string {
+  const field = normalizeFieldDefinition(raw);
+  const dialect = options.dialect || 'postgres';
+  const column = quoteIdentifier(columnName(name, options));
+  const parts = [column, columnType(field, dialect)];
+
+  if (primaryKey) {
+    parts.push('PRIMARY KEY');
+  } else if (field.required) {
+    parts.push('NOT NULL');
+  }
+  if (field.default !== undefined) {
+    parts.push(`DEFAULT ${formatLiteral(field.default, field, dialect)}`);
+  }
+
+  const check = enumCheckClause(field, column, dialect);
+  if (check) {
+    parts.push(check);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * CHECK clause restricting a column to the values of the field's enum rule
+ */
+export function enumCheckClause(field: FieldDefinition, column: string, dialect: SqlDialect): string | undefined {
+  const rule = (field.validation || []).find(candidate => candidate.type === 'enum');
+  if (!rule || !Array.isArray(rule.value) || rule.value.length === 0) {
+    return undefined;
+  }
+  return `CHECK (${column} IN (${rule.value.map((value: any) => formatLiteral(value, field, dialect)).join(', ')}))`;
+}
+
+/**
+ * Formats a value as a SQL literal for a field's column
+ */
+export function formatLiteral(value: any, field: FieldDefinition, dialect: SqlDialect): string {
+  if (value === null) {
+    return 'NULL';
+  }
+  if (typeof value === 'boolean') {
+    return dialect === 'sqlite' ? (value ? '1' : '0') : value ? 'TRUE' : 'FALSE';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value === 'object' || field.type === 'object' || field.type === 'array') {
+    const json = quoteString(JSON.stringify(value));
+    return dialect === 'postgres' ? `${json}::jsonb` : json;
+  }
+  return quoteString(String(value));
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * SQL for a foreign key's referential actions
+ */
+export function referentialActions(foreignKey: ForeignKey): string {
+  const action = (value: ForeignKey['onDelete']) => (value || 'restrict').replace('-', ' ').toUpperCase();
+  const parts: string[] = [];
+  if (foreignKey.onDelete) {
+    parts.push(`ON DELETE ${action(foreignKey.onDelete)}`);
+  }
+  if (foreignKey.onUpdate) {
+    parts.push(`ON UPDATE ${action(foreignKey.onUpdate)}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * FOREIGN KEY clause of a table constraint
+ */
+export function foreignKeyClause(foreignKey: ForeignKey, options: SqlGeneratorOptions): string {
+  const clause = [
+    `FOREIGN KEY (${quoteIdentifier(columnName(foreignKey.field, options))})`,
+    `REFERENCES ${quoteIdentifier(tableName(foreignKey.references, options))}`,
+    `(${quoteIdentifier(columnName(foreignKey.referencedField, options))})`
+  ].join(' ');
+  const actions = referentialActions(foreignKey);
+  return actions ? `${clause} ${actions}` : clause;
+}
+
+/**
+ * CREATE TABLE statement for a model. `target` overrides the created
+ * table's name while constraint names keep the model's table name.
+ */
+export function createTableStatement(
+  model: DataModelContract,
+  foreignKeys: ForeignKey[],
+  options: SqlGeneratorOptions,
+  target?: string
+): string {
+  const table = tableName(model.modelName, options);
+  const primaryKey = primaryKeyField(model, options);
+  const ifNotExists = options.ifNotExists ? 'IF NOT EXISTS ' : '';
+
+  const lines = Object.entries(model.fields).map(([name, field]) =>
+    columnDefinition(name, field, options, name === primaryKey)
+  );
+  for (const field of uniqueFields(model, options)) {
+    const column = columnName(field, options);
+    lines.push(`CONSTRAINT ${quoteIdentifier(constraintName(table, column, 'key'))} UNIQUE (${quoteIdentifier(column)})`);
+  }
+  for (const foreignKey of foreignKeys) {
+    const column = columnName(foreignKey.field, options);
+    lines.push(`CONSTRAINT ${quoteIdentifier(constraintName(table, column, 'fkey'))} ${foreignKeyClause(foreignKey, options)}`);
+  }
+
+  return [
+    `-- ${model.name} (${model.id}@${toSemanticVersion(model.version)})`,
+    `CREATE TABLE ${ifNotExists}${quoteIdentifier(target || table)} (`,
+    lines.map(line => `  ${line}`).join(',\n'),
+    ');'
+  ].join('\n');
+}
+
+/**
+ * CREATE INDEX statements for a model's indexes
+ */
+export function createIndexStatements(model: DataModelContract, options: SqlGeneratorOptions): string[] {
+  const table = tableName(model.modelName, options);
+  return indexedFields(model, options).map(field => createIndexStatement(table, columnName(field, options), options));
+}
+
+/**
+ * CREATE INDEX statement for a single column
+ */
+export function createIndexStatement(table: string, column: string, options: SqlGeneratorOptions): string {
+  const ifNotExists = options.ifNotExists ? 'IF NOT EXISTS ' : '';
+  return `CREATE INDEX ${ifNotExists}${quoteIdentifier(constraintName(table, column, 'idx'))} ` +
+    `ON ${quoteIdentifier(table)} (${quoteIdentifier(column)});`;
+}
+
+/**
+ * Fields with a UNIQUE constraint; the primary key is unique already
+ */
+export function uniqueFields(model: DataModelContract, options: SqlGeneratorOptions): string[] {
+  const primaryKey = primaryKeyField(model, options);
+  return [...new Set(model.constraints?.unique || [])].filter(field => field !== primaryKey);
+}
+
+/**
+ * Fields that need an explicit index; unique and primary key columns are
+ * indexed already
+ */
+export function indexedFields(model: DataModelContract, options: SqlGeneratorOptions): string[] {
+  const primaryKey = primaryKeyField(model, options);
+  const unique = uniqueFields(model, options);
+  return [...new Set(model.constraints?.indexes || [])].filter(field => field !== primaryKey && !unique.includes(field));
+}
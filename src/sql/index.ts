@@ -0,0 +1,6 @@
+/**
+ * SQL generation from data model contracts
+ */
+
+export * from './ddl';
+export * from './migration';
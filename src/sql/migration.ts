@@ -0,0 +1,421 @@
+/**
+ * Schema migrations between versions of a data model contract
+ */
+
+import { DataModelContract, FieldDefinition, ForeignKey } from '../types';
+import { toSemanticVersion } from '../utils';
+import { normalizeFieldDefinition } from '../validation/fields';
+import {
+  SqlDialect,
+  SqlGeneratorOptions,
+  columnDefinition,
+  columnName,
+  columnType,
+  constraintName,
+  createIndexStatement,
+  createIndexStatements,
+  createTableStatement,
+  enumCheckClause,
+  foreignKeyClause,
+  formatLiteral,
+  indexedFields,
+  primaryKeyField,
+  quoteIdentifier,
+  tableName,
+  uniqueFields
+} from './dialect';
+
+/**
+ * Kinds of migration step
+ */
+export type MigrationStepType =
+  | 'rename-table'
+  | 'rebuild-table'
+  | 'add-column'
+  | 'drop-column'
+  | 'alter-column-type'
+  | 'set-not-null'
+  | 'drop-not-null'
+  | 'set-default'
+  | 'drop-default'
+  | 'alter-check'
+  | 'add-unique'
+  | 'drop-unique'
+  | 'add-index'
+  | 'drop-index'
+  | 'add-foreign-key'
+  | 'drop-foreign-key';
+
+/**
+ * A single step of a migration plan
+ */
+export interface MigrationStep {
+  type: MigrationStepType;
+  /** Field the step applies to, if any */
+  field?: string;
+  /** Human-readable summary */
+  description: string;
+  /** SQL statements performing the step */
+  statements: string[];
+}
+
+/**
+ * A step that destroys data or may fail depending on existing data
+ */
+export interface MigrationWarning {
+  type: MigrationStepType;
+  field?: string;
+  message: string;
+}
+
+/**
+ * Up and down migrations between two versions of a data model
+ */
+export interface ModelMigration {
+  table: string;
+  fromVersion: string;
+  toVersion: string;
+  /** Steps from the old version to the new one, in execution order */
+  up: MigrationStep[];
+  /** Steps from the new version back to the old one, in execution order */
+  down: MigrationStep[];
+  /** Warnings about the up migration */
+  warnings: MigrationWarning[];
+  /** Warnings about the down migration */
+  downWarnings: MigrationWarning[];
+}
+
+/**
+ * Plans the migration between two versions of the same data model. SQLite
+ * cannot alter columns or constraints in place, so there any such change
+ * rebuilds the table.
+ */
+export function generateMigration(
+  oldModel: DataModelContract,
+  newModel: DataModelContract,
+  options: SqlGeneratorOptions = {}
+): ModelMigration {
+  if (oldModel.id !== newModel.id) {
+    throw new Error(`Cannot migrate between different models: ${oldModel.id} and ${newModel.id}`);
+  }
+
+  const up = planMigration(oldModel, newModel, options);
+  const down = planMigration(newModel, oldModel, options);
+
+  return {
+    table: tableName(newModel.modelName, options),
+    fromVersion: toSemanticVersion(oldModel.version),
+    toVersion: toSemanticVersion(newModel.version),
+    up: up.steps,
+    down: down.steps,
+    warnings: up.warnings,
+    downWarnings: down.warnings
+  };
+}
+
+/**
+ * Renders migration steps as a SQL script, one commented block per step
+ */
+export function formatMigrationSql(steps: MigrationStep[]): string {
+  return steps.map(step => [`-- ${step.description}`, ...step.statements].join('\n')).join('\n\n');
+}
+
+interface Plan {
+  steps: MigrationStep[];
+  warnings: MigrationWarning[];
+}
+
+interface ColumnChange {
+  field: string;
+  before: FieldDefinition;
+  after: FieldDefinition;
+}
+
+function planMigration(from: DataModelContract, to: DataModelContract, options: SqlGeneratorOptions): Plan {
+  const dialect: SqlDialect = options.dialect || 'postgres';
+  const plan: Plan = { steps: [], warnings: [] };
+
+  const oldTable = tableName(from.modelName, options);
+  const newTable = tableName(to.modelName, options);
+  const oldFields = Object.keys(from.fields);
+  const newFields = Object.keys(to.fields);
+  const added = newFields.filter(field => !oldFields.includes(field));
+  const dropped = oldFields.filter(field => !newFields.includes(field));
+  const changed: ColumnChange[] = newFields
+    .filter(field => oldFields.includes(field))
+    .map(field => ({
+      field,
+      before: normalizeFieldDefinition(from.fields[field]),
+      after: normalizeFieldDefinition(to.fields[field])
+    }));
+
+  const oldUnique = uniqueFields(from, options);
+  const newUnique = uniqueFields(to, options);
+  const oldIndexes = indexedFields(from, options);
+  const newIndexes = indexedFields(to, options);
+  const oldForeignKeys = from.constraints?.foreignKeys || [];
+  const newForeignKeys = to.constraints?.foreignKeys || [];
+  const droppedForeignKeys = oldForeignKeys.filter(foreignKey => !newForeignKeys.some(other => sameForeignKey(foreignKey, other)));
+  const addedForeignKeys = newForeignKeys.filter(foreignKey => !oldForeignKeys.some(other => sameForeignKey(foreignKey, other)));
+
+  for (const field of dropped) {
+    warn(plan, 'drop-column', field, `Dropping field '${field}' deletes its data`);
+  }
+  for (const field of added) {
+    const definition = normalizeFieldDefinition(to.fields[field]);
+    if (definition.required && definition.default === undefined && field !== primaryKeyField(to, options)) {
+      warn(plan, 'add-column', field, `Adding required field '${field}' without a default fails if the table has rows`);
+    }
+  }
+
+  const addedUnique = newUnique.filter(field => !oldUnique.includes(field));
+  for (const field of addedUnique) {
+    warn(plan, 'add-unique', field, `Adding a unique constraint on '${field}' fails if existing rows contain duplicates`);
+  }
+  for (const foreignKey of addedForeignKeys) {
+    warn(plan, 'add-foreign-key', foreignKey.field,
+      `Adding a foreign key on '${foreignKey.field}' fails if existing rows reference missing ${foreignKey.references} records`);
+  }
+
+  if (dialect === 'sqlite' && needsRebuild(from, to, changed, added, dropped, options)) {
+    planRebuild(from, to, changed, plan, options);
+    return plan;
+  }
+
+  if (oldTable !== newTable) {
+    step(plan, 'rename-table', undefined, `Rename table ${oldTable} to ${newTable}`, [
+      `ALTER TABLE ${quoteIdentifier(oldTable)} RENAME TO ${quoteIdentifier(newTable)};`
+    ]);
+  }
+  const table = quoteIdentifier(newTable);
+
+  // Constraints go first so the columns they cover can change or be dropped
+  for (const foreignKey of droppedForeignKeys) {
+    const name = constraintName(oldTable, columnName(foreignKey.field, options), 'fkey');
+    step(plan, 'drop-foreign-key', foreignKey.field, `Drop foreign key on ${foreignKey.field}`, [
+      `ALTER TABLE ${table} DROP CONSTRAINT ${quoteIdentifier(name)};`
+    ]);
+  }
+  for (const field of oldIndexes.filter(field => !newIndexes.includes(field))) {
+    const name = constraintName(oldTable, columnName(field, options), 'idx');
+    step(plan, 'drop-index', field, `Drop index on ${field}`, [`DROP INDEX ${quoteIdentifier(name)};`]);
+  }
+  for (const field of oldUnique.filter(field => !newUnique.includes(field))) {
+    const name = constraintName(oldTable, columnName(field, options), 'key');
+    step(plan, 'drop-unique', field, `Drop unique constraint on ${field}`, [
+      `ALTER TABLE ${table} DROP CONSTRAINT ${quoteIdentifier(name)};`
+    ]);
+  }
+
+  for (const field of added) {
+    step(plan, 'add-column', field, `Add column ${field}`, [
+      `ALTER TABLE ${table} ADD COLUMN ${columnDefinition(field, to.fields[field], options, field === primaryKeyField(to, options))};`
+    ]);
+  }
+
+  if (dialect === 'postgres') {
+    for (const change of changed) {
+      planColumnChange(change, oldTable, newTable, plan, options);
+    }
+  }
+
+  for (const field of dropped) {
+    step(plan, 'drop-column', field, `Drop column ${field}`, [
+      `ALTER TABLE ${table} DROP COLUMN ${quoteIdentifier(columnName(field, options))};`
+    ]);
+  }
+
+  for (const field of addedUnique) {
+    const column = columnName(field, options);
+    step(plan, 'add-unique', field, `Add unique constraint on ${field}`, [
+      `ALTER TABLE ${table} ADD CONSTRAINT ${quoteIdentifier(constraintName(newTable, column, 'key'))} UNIQUE (${quoteIdentifier(column)});`
+    ]);
+  }
+  for (const field of newIndexes.filter(field => !oldIndexes.includes(field))) {
+    step(plan, 'add-index', field, `Add index on ${field}`, [createIndexStatement(newTable, columnName(field, options), options)]);
+  }
+  for (const foreignKey of addedForeignKeys) {
+    const column = columnName(foreignKey.field, options);
+    step(plan, 'add-foreign-key', foreignKey.field, `Add foreign key on ${foreignKey.field}`, [
+      `ALTER TABLE ${table} ADD CONSTRAINT ${quoteIdentifier(constraintName(newTable, column, 'fkey'))} ${foreignKeyClause(foreignKey, options)};`
+    ]);
+  }
+
+  return plan;
+}
+
+/**
+ * PostgreSQL steps for a column whose definition changed. Runs after any
+ * table rename, so constraints created before it carry the old table name.
+ */
+function planColumnChange(
+  change: ColumnChange,
+  oldTable: string,
+  table: string,
+  plan: Plan,
+  options: SqlGeneratorOptions
+): void {
+  const { field, before, after } = change;
+  const column = quoteIdentifier(columnName(field, options));
+  const alter = `ALTER TABLE ${quoteIdentifier(table)} ALTER COLUMN ${column}`;
+
+  const oldType = columnType(before, 'postgres');
+  const newType = columnType(after, 'postgres');
+  if (oldType !== newType) {
+    if (!isWidening(oldType, newType)) {
+      warn(plan, 'alter-column-type', field, `Changing '${field}' from ${oldType} to ${newType} fails if existing values cannot be converted`);
+    }
+    step(plan, 'alter-column-type', field, `Change type of ${field} from ${oldType} to ${newType}`, [
+      `${alter} TYPE ${newType} USING ${column}::${newType};`
+    ]);
+  }
+
+  const oldDefault = before.default === undefined ? undefined : formatLiteral(before.default, before, 'postgres');
+  const newDefault = after.default === undefined ? undefined : formatLiteral(after.default, after, 'postgres');
+  if (oldDefault !== newDefault) {
+    step(plan, newDefault === undefined ? 'drop-default' : 'set-default', field,
+      newDefault === undefined ? `Drop default of ${field}` : `Set default of ${field} to ${newDefault}`,
+      [newDefault === undefined ? `${alter} DROP DEFAULT;` : `${alter} SET DEFAULT ${newDefault};`]);
+  }
+
+  if (!before.required && after.required) {
+    const statements = [`${alter} SET NOT NULL;`];
+    if (newDefault !== undefined) {
+      statements.unshift(`UPDATE ${quoteIdentifier(table)} SET ${column} = ${newDefault} WHERE ${column} IS NULL;`);
+    } else {
+      warn(plan, 'set-not-null', field, `Making '${field}' required fails if existing rows have no value and it has no default to backfill`);
+    }
+    step(plan, 'set-not-null', field, `Make ${field} required`, statements);
+  } else if (before.required && !after.required) {
+    step(plan, 'drop-not-null', field, `Make ${field} optional`, [`${alter} DROP NOT NULL;`]);
+  }
+
+  const oldCheck = enumCheckClause(before, column, 'postgres');
+  const newCheck = enumCheckClause(after, column, 'postgres');
+  if (oldCheck !== newCheck) {
+    // PostgreSQL names column CHECK constraints <table>_<column>_check
+    const oldName = quoteIdentifier(constraintName(oldTable, columnName(field, options), 'check'));
+    const statements = [`ALTER TABLE ${quoteIdentifier(table)} DROP CONSTRAINT IF EXISTS ${oldName};`];
+    if (newCheck) {
+      const newName = quoteIdentifier(constraintName(table, columnName(field, options), 'check'));
+      statements.push(`ALTER TABLE ${quoteIdentifier(table)} ADD CONSTRAINT ${newName} ${newCheck};`);
+      warn(plan, 'alter-check', field, `Restricting '${field}' to the new enum values fails if existing rows hold other values`);
+    }
+    step(plan, 'alter-check', field, `Update allowed values of ${field}`, statements);
+  }
+}
+
+/**
+ * Whether a SQLite migration needs a table rebuild: anything beyond adding
+ * nullable columns, dropping columns without constraints and changing indexes
+ */
+function needsRebuild(
+  from: DataModelContract,
+  to: DataModelContract,
+  changed: ColumnChange[],
+  added: string[],
+  dropped: string[],
+  options: SqlGeneratorOptions
+): boolean {
+  const sameList = (a: string[], b: string[]) => a.length === b.length && a.every(item => b.includes(item));
+  const oldForeignKeys = from.constraints?.foreignKeys || [];
+  const newForeignKeys = to.constraints?.foreignKeys || [];
+
+  return (
+    changed.some(({ field, before, after }) =>
+      columnDefinition(field, before, options) !== columnDefinition(field, after, options)
+    ) ||
+    added.some(field => {
+      const definition = normalizeFieldDefinition(to.fields[field]);
+      // SQLite cannot add a NOT NULL column without a default, or a primary key
+      return (definition.required && definition.default === undefined) || field === primaryKeyField(to, options);
+    }) ||
+    // Indexes on dropped columns are dropped first; the primary key cannot be
+    dropped.some(field => field === primaryKeyField(from, options)) ||
+    !sameList(uniqueFields(from, options), uniqueFields(to, options)) ||
+    oldForeignKeys.length !== newForeignKeys.length ||
+    oldForeignKeys.some(foreignKey => !newForeignKeys.some(other => sameForeignKey(foreignKey, other)))
+  );
+}
+
+/**
+ * SQLite table rebuild: create the new table, copy the shared columns,
+ * replace the old table and recreate the indexes
+ */
+function planRebuild(
+  from: DataModelContract,
+  to: DataModelContract,
+  changed: ColumnChange[],
+  plan: Plan,
+  options: SqlGeneratorOptions
+): void {
+  const oldTable = tableName(from.modelName, options);
+  const newTable = tableName(to.modelName, options);
+  const temporary = `${newTable}__new`;
+  const columns = changed.map(change => quoteIdentifier(columnName(change.field, options))).join(', ');
+  // Fields that became required are backfilled from their default, if any
+  const values = changed.map(({ field, before, after }) => {
+    const column = quoteIdentifier(columnName(field, options));
+    return !before.required && after.required && after.default !== undefined
+      ? `COALESCE(${column}, ${formatLiteral(after.default, after, 'sqlite')})`
+      : column;
+  }).join(', ');
+
+  for (const { field, before, after } of changed) {
+    if (columnType(before, 'sqlite') !== columnType(after, 'sqlite')) {
+      warn(plan, 'rebuild-table', field, `Copying '${field}' into a ${columnType(after, 'sqlite')} column may change stored values`);
+    }
+    if (!before.required && after.required && after.default === undefined) {
+      warn(plan, 'rebuild-table', field, `Making '${field}' required fails if existing rows have no value and it has no default to backfill`);
+    }
+  }
+
+  const statements = [
+    createTableStatement(to, to.constraints?.foreignKeys || [], options, temporary),
+    columns
+      ? `INSERT INTO ${quoteIdentifier(temporary)} (${columns}) SELECT ${values} FROM ${quoteIdentifier(oldTable)};`
+      : undefined,
+    `DROP TABLE ${quoteIdentifier(oldTable)};`,
+    `ALTER TABLE ${quoteIdentifier(temporary)} RENAME TO ${quoteIdentifier(newTable)};`,
+    ...createIndexStatements(to, options)
+  ].filter((statement): statement is string => statement !== undefined);
+
+  step(plan, 'rebuild-table', undefined, `Rebuild table ${newTable}`, statements);
+}
+
+function step(
+  plan: Plan,
+  type: MigrationStepType,
+  field: string | undefined,
+  description: string,
+  statements: string[]
+): void {
+  plan.steps.push(field === undefined ? { type, description, statements } : { type, field, description, statements });
+}
+
+function warn(plan: Plan, type: MigrationStepType, field: string | undefined, message: string): void {
+  plan.warnings.push(field === undefined ? { type, message } : { type, field, message });
+}
+
+function sameForeignKey(a: ForeignKey, b: ForeignKey): boolean {
+  return (
+    a.field === b.field &&
+    a.references === b.references &&
+    a.referencedField === b.referencedField &&
+    (a.onDelete || undefined) === (b.onDelete || undefined) &&
+    (a.onUpdate || undefined) === (b.onUpdate || undefined)
+  );
+}
+
+/**
+ * Whether a PostgreSQL type change keeps every existing value
+ */
+function isWidening(oldType: string, newType: string): boolean {
+  const varchar = /^VARCHAR\((\d+)\)$/;
+  const oldMatch = varchar.exec(oldType);
+  if (oldMatch) {
+    const newMatch = varchar.exec(newType);
+    return newType === 'TEXT' || (newMatch !== null && Number(newMatch[1]) >= Number(oldMatch[1]));
+  }
+  return oldType === 'INTEGER' && (newType === 'DOUBLE PRECISION' || newType === 'TEXT');
+}
@@ -47,12 +47,16 @@ export interface ContractMetadata {
   deprecated?: boolean;
   /** Deprecation reason if deprecated */
   deprecationReason?: string;
+  /** Lint rule ids suppressed for this contract */
+  suppressLint?: string[];
 }
 
 /**
  * Generic event contract structure
  */
 export interface EventContract extends BaseContract {
+  /** Kind discriminant; inferred from `eventType` when missing */
+  kind?: 'event';
   /** Event type identifier */
   eventType: string;
   /** Event payload schema */
@@ -75,10 +79,38 @@ export interface EventMetadata {
   ttl?: number;
 }
 
+/**
+ * Standard wrapper around an emitted event's payload
+ */
+export interface EventEnvelope<TPayload = Record<string, any>> {
+  /** Unique identifier of this event */
+  id: string;
+  /** Event type identifier */
+  eventType: string;
+  /** Id of the event contract the payload conforms to */
+  contractId: string;
+  /** Semantic version of that contract, e.g. `1.2.0` */
+  contractVersion: string;
+  /** ISO 8601 timestamp when the event was emitted */
+  emittedAt: string;
+  /** Id shared by every event in one flow */
+  correlationId?: string;
+  /** Id of the event that caused this one */
+  causationId?: string;
+  /** Event priority */
+  priority: NonNullable<EventMetadata['priority']>;
+  /** ISO 8601 timestamp after which the event should be dropped, from the contract's `ttl` */
+  expiresAt?: string;
+  /** Event payload */
+  payload: TPayload;
+}
+
 /**
  * API contract structure
  */
 export interface ApiContract extends BaseContract {
+  /** Kind discriminant; inferred from `method` and `path` when missing */
+  kind?: 'api';
   /** HTTP method */
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   /** API endpoint path */
@@ -107,6 +139,8 @@ export interface AuthRequirements {
  * Data model contract
  */
 export interface DataModelContract extends BaseContract {
+  /** Kind discriminant; inferred from `modelName` when missing */
+  kind?: 'data-model';
   /** Model name */
   modelName: string;
   /** Model fields */
@@ -115,6 +149,21 @@ export interface DataModelContract extends BaseContract {
   constraints?: ModelConstraints;
 }
 
+/**
+ * Any of the concrete contract kinds
+ */
+export type Contract = EventContract | ApiContract | DataModelContract;
+
+/**
+ * Names of the concrete contract kinds
+ */
+export type ContractKind = 'event' | 'api' | 'data-model';
+
+/**
+ * The contract type for a kind, e.g. `ContractOfKind<'api'>` is ApiContract
+ */
+export type ContractOfKind<K extends ContractKind> = Extract<Contract, { kind?: K }>;
+
 /**
  * Field definition in a data model
  */
@@ -129,6 +178,10 @@ export interface FieldDefinition {
   description?: string;
   /** Validation rules */
   validation?: ValidationRule[];
+  /** Nested field definitions when type is 'object' */
+  properties?: Record<string, FieldDefinition>;
+  /** Element definition when type is 'array' */
+  items?: FieldDefinition;
 }
 
 /**
@@ -170,3 +223,5 @@ export interface ValidationRule {
   /** Error message */
   message?: string;
 }
+
+export * from './infer';
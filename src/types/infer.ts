@@ -0,0 +1,161 @@
+/**
+ * Compile-time inference of value types from contract literals. The
+ * contract must keep its literal types, either through `as const` or one of
+ * the `define*Contract` helpers.
+ */
+
+/**
+ * Flattens an intersection into one object type
+ */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Strips `readonly` at every level, e.g. from an `as const` literal
+ */
+export type DeepMutable<T> = T extends (...args: any[]) => any
+  ? T
+  : T extends object
+    ? { -readonly [K in keyof T]: DeepMutable<T[K]> }
+    : T;
+
+/**
+ * Adds `readonly` at every level
+ */
+export type DeepReadonly<T> = T extends (...args: any[]) => any
+  ? T
+  : T extends object
+    ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+    : T;
+
+type FieldTypeName<T> =
+  T extends 'string' | 'date' ? string :
+  T extends 'number' | 'integer' ? number :
+  T extends 'boolean' ? boolean :
+  T extends 'object' ? Record<string, unknown> :
+  T extends 'array' ? unknown[] :
+  unknown;
+
+type EnumValues<D> = D extends { readonly validation: readonly (infer R)[] }
+  ? R extends { readonly type: 'enum'; readonly value: readonly (infer V)[] } ? V : never
+  : never;
+
+type FieldValue<D> =
+  D extends string ? FieldTypeName<D> :
+  D extends { readonly type: 'object'; readonly properties: infer P } ? InferFields<P> :
+  D extends { readonly type: 'array'; readonly items: infer I } ? Array<InferField<I>> :
+  D extends { readonly type: infer T } ? FieldTypeName<T> :
+  unknown;
+
+type RequiredFieldKeys<F> = {
+  [K in keyof F]-?: F[K] extends { readonly required: true } ? K : never
+}[keyof F];
+
+/**
+ * Value type of a single field definition. An `enum` validation rule
+ * narrows the type to the union of its values; type names without a
+ * TypeScript counterpart, such as references to other models, are `unknown`.
+ */
+export type InferField<D> = [EnumValues<D>] extends [never] ? FieldValue<D> : EnumValues<D>;
+
+/**
+ * Object type described by a map of field definitions. Fields marked
+ * `required: true` are required, the rest optional.
+ */
+export type InferFields<F> = Simplify<
+  { -readonly [K in RequiredFieldKeys<F>]: InferField<F[K]> } &
+  { -readonly [K in Exclude<keyof F, RequiredFieldKeys<F>>]?: InferField<F[K]> }
+>;
+
+/** Remaining `$ref` depth, so recursive schemas end in `unknown` */
+type Previous = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+type WithType<S, T> = T extends unknown ? Omit<S, 'type'> & { readonly type: T } : never;
+
+type SchemaType<S, Root, D extends number> =
+  [D] extends [never] ? unknown :
+  S extends true ? unknown :
+  S extends false ? never :
+  S extends { readonly $ref: `#/definitions/${infer N}` } ? RefType<N, Root, Previous[D]> :
+  S extends { readonly const: infer C } ? DeepMutable<C> :
+  S extends { readonly enum: readonly (infer E)[] } ? E :
+  S extends { readonly oneOf: readonly (infer B)[] } ? SchemaType<B, Root, D> :
+  S extends { readonly anyOf: readonly (infer B)[] } ? SchemaType<B, Root, D> :
+  S extends { readonly allOf: infer A } ? AllOfType<A, Root, D> :
+  S extends { readonly type: readonly (infer T)[] } ? SchemaType<WithType<S, T>, Root, D> :
+  S extends { readonly type: 'string' } ? string :
+  S extends { readonly type: 'number' | 'integer' } ? number :
+  S extends { readonly type: 'boolean' } ? boolean :
+  S extends { readonly type: 'null' } ? null :
+  S extends { readonly type: 'array' } ? ArrayType<S, Root, D> :
+  S extends { readonly type: 'object' } ? ObjectType<S, Root, D> :
+  S extends { readonly properties: object } ? ObjectType<S, Root, D> :
+  unknown;
+
+type RefType<N, Root, D extends number> = Root extends { readonly definitions: infer Definitions }
+  ? N extends keyof Definitions ? SchemaType<Definitions[N], Root, D> : unknown
+  : unknown;
+
+type AllOfType<A, Root, D extends number> = A extends readonly [infer Head, ...infer Tail]
+  ? SchemaType<Head, Root, D> & AllOfType<Tail, Root, D>
+  : unknown;
+
+type ArrayType<S, Root, D extends number> = S extends { readonly items: infer I }
+  ? I extends readonly unknown[]
+    ? { -readonly [K in keyof I]: SchemaType<I[K], Root, D> }
+    : Array<SchemaType<I, Root, D>>
+  : unknown[];
+
+type RequiredProperties<S> = S extends { readonly required: readonly (infer R)[] } ? R : never;
+
+type PropertiesType<P, R, Root, D extends number> =
+  { -readonly [K in keyof P as K extends R ? K : never]: SchemaType<P[K], Root, D> } &
+  { -readonly [K in keyof P as K extends R ? never : K]?: SchemaType<P[K], Root, D> };
+
+type ObjectType<S, Root, D extends number> = S extends { readonly properties: infer P }
+  ? Simplify<PropertiesType<P, RequiredProperties<S>, Root, D> & (
+      S extends { readonly additionalProperties: false } ? {} :
+      S extends { readonly additionalProperties: unknown } ? { [key: string]: unknown } :
+      {}
+    )>
+  : S extends { readonly additionalProperties: infer A }
+    ? A extends false ? Record<string, never> :
+      A extends true ? Record<string, unknown> :
+      Record<string, SchemaType<A, Root, D>>
+    : Record<string, unknown>;
+
+/**
+ * TypeScript type of the values a JSON Schema accepts. Local `$ref`s
+ * resolve against `Root`'s `definitions`.
+ */
+export type InferSchema<S, Root = S> = SchemaType<S, Root, 8>;
+
+/** Response keys recognised as HTTP status codes */
+type StatusKey = `${1 | 2 | 3 | 4 | 5}${string}` | 'default';
+
+/**
+ * Payload type of an event contract
+ */
+export type InferPayload<C> = C extends { readonly payload: infer P } ? InferFields<P> : never;
+
+/**
+ * Record type of a data model contract
+ */
+export type InferRecord<C> = C extends { readonly fields: infer F } ? InferFields<F> : never;
+
+/**
+ * Request type of an API contract: the body, or the query for GET and
+ * DELETE. `undefined` when the contract has no `requestSchema`.
+ */
+export type InferRequest<C> = C extends { readonly requestSchema: infer S } ? InferSchema<S> : undefined;
+
+/**
+ * Response type of an API contract. A response schema keyed by status code
+ * gives the union of every status' body.
+ */
+export type InferResponse<C> = C extends { readonly responseSchema: infer S }
+  ? [keyof S] extends [never]
+    ? InferSchema<S>
+    : keyof S extends StatusKey
+      ? { [K in keyof S]: InferSchema<S[K]> }[keyof S]
+      : InferSchema<S>
+  : unknown;
@@ -2,7 +2,12 @@
  * Utility functions for working with contracts
  */
 
-import { BaseContract, ContractVersion, EventContract, ApiContract, DataModelContract } from '../types';
+import { BaseContract, ContractKind, ContractMetadata, ContractVersion, EventContract, ApiContract, DataModelContract } from '../types';
+import { compareVersions } from './semver';
+import { ContractBuilder, apiContract, dataModelContract, eventContract } from '../builders';
+
+export * from './semver';
+export * from './yaml';
 
 /**
  * Generates a unique contract ID
@@ -34,69 +39,66 @@ export function createContractVersion(
 }
 
 /**
- * Converts a semantic version string to ContractVersion object
+ * Extracts parameter names from a templated API path.
+ * Both `/users/:id` and `/users/{id}` styles are recognised.
  */
-export function parseSemanticVersion(version: string): ContractVersion {
-  const match = version.match(/^(\d+)\.(\d+)\.(\d+)(?:-([^+]+))?(?:\+(.+))?$/);
-  if (!match) {
-    throw new Error(`Invalid semantic version: ${version}`);
+export function extractPathParameters(path: string): string[] {
+  const names: string[] = [];
+  const pattern = /:([A-Za-z_][A-Za-z0-9_]*)|\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+  let match: RegExpExecArray | null;
+  
+  while ((match = pattern.exec(path)) !== null) {
+    names.push(match[1] || match[2]);
   }
   
-  return {
-    major: parseInt(match[1], 10),
-    minor: parseInt(match[2], 10),
-    patch: parseInt(match[3], 10),
-    prerelease: match[4] || undefined,
-    build: match[5] || undefined
-  };
+  return names;
 }
 
+const CONTRACT_KINDS: ContractKind[] = ['event', 'api', 'data-model'];
+
 /**
- * Converts a ContractVersion object to semantic version string
+ * Works out which kind of contract an object is: its `kind` discriminant
+ * when present, otherwise its kind-specific fields
  */
-export function toSemanticVersion(version: ContractVersion): string {
-  let versionString = `${version.major}.${version.minor}.${version.patch}`;
-  
-  if (version.prerelease) {
-    versionString += `-${version.prerelease}`;
+export function inferContractKind(contract: any): ContractKind | undefined {
+  if (contract === null || typeof contract !== 'object') {
+    return undefined;
   }
-  
-  if (version.build) {
-    versionString += `+${version.build}`;
+  if (CONTRACT_KINDS.includes(contract.kind)) {
+    return contract.kind;
   }
-  
-  return versionString;
+  if ('eventType' in contract) {
+    return 'event';
+  }
+  if ('method' in contract && 'path' in contract) {
+    return 'api';
+  }
+  if ('modelName' in contract) {
+    return 'data-model';
+  }
+  return undefined;
 }
 
 /**
- * Compares two contract versions
- * Returns: -1 if v1 < v2, 0 if v1 === v2, 1 if v1 > v2
+ * Whether a value is an event contract, judged by its kind. Use
+ * `parseContract` to also check its structure.
  */
-export function compareVersions(v1: ContractVersion, v2: ContractVersion): number {
-  // Compare major version
-  if (v1.major !== v2.major) {
-    return v1.major - v2.major;
-  }
-  
-  // Compare minor version
-  if (v1.minor !== v2.minor) {
-    return v1.minor - v2.minor;
-  }
-  
-  // Compare patch version
-  if (v1.patch !== v2.patch) {
-    return v1.patch - v2.patch;
-  }
-  
-  // Compare prerelease (undefined is considered higher than any prerelease)
-  if (v1.prerelease !== v2.prerelease) {
-    if (!v1.prerelease) return 1;
-    if (!v2.prerelease) return -1;
-    return v1.prerelease.localeCompare(v2.prerelease);
-  }
-  
-  // Versions are equal
-  return 0;
+export function isEventContract(value: unknown): value is EventContract {
+  return inferContractKind(value) === 'event';
+}
+
+/**
+ * Whether a value is an API contract, judged by its kind
+ */
+export function isApiContract(value: unknown): value is ApiContract {
+  return inferContractKind(value) === 'api';
+}
+
+/**
+ * Whether a value is a data model contract, judged by its kind
+ */
+export function isDataModelContract(value: unknown): value is DataModelContract {
+  return inferContractKind(value) === 'data-model';
 }
 
 /**
@@ -189,7 +191,8 @@ export function findLatestContractVersion<T extends BaseContract>(
 }
 
 /**
- * Creates an event contract
+ * Creates an event contract without validating it. Prefer the
+ * `eventContract()` builder, which checks the result.
  */
 export function createEventContract(
   id: string,
@@ -199,15 +202,17 @@ export function createEventContract(
   version: ContractVersion = createContractVersion(1, 0, 0),
   metadata: any = {}
 ): Partial<EventContract> {
-  return {
-    ...createBaseContract(id, name, version, metadata),
-    eventType,
-    payload: payloadSchema
-  };
+  return withMetadataDefaults(eventContract(id), metadata)
+    .name(name)
+    .version(version)
+    .eventType(eventType)
+    .payload(payloadSchema)
+    .draft();
 }
 
 /**
- * Creates an API contract
+ * Creates an API contract without validating it. Prefer the
+ * `apiContract()` builder, which checks the result.
  */
 export function createApiContract(
   id: string,
@@ -217,15 +222,16 @@ export function createApiContract(
   version: ContractVersion = createContractVersion(1, 0, 0),
   metadata: any = {}
 ): Partial<ApiContract> {
-  return {
-    ...createBaseContract(id, name, version, metadata),
-    method,
-    path
-  };
+  return withMetadataDefaults(apiContract(id), metadata)
+    .name(name)
+    .version(version)
+    .endpoint(method, path)
+    .draft();
 }
 
 /**
- * Creates a data model contract
+ * Creates a data model contract without validating it. Prefer the
+ * `dataModelContract()` builder, which checks the result.
  */
 export function createDataModelContract(
   id: string,
@@ -235,11 +241,19 @@ export function createDataModelContract(
   version: ContractVersion = createContractVersion(1, 0, 0),
   metadata: any = {}
 ): Partial<DataModelContract> {
-  return {
-    ...createBaseContract(id, name, version, metadata),
-    modelName,
-    fields
-  };
+  return withMetadataDefaults(dataModelContract(id), metadata)
+    .name(name)
+    .version(version)
+    .modelName(modelName)
+    .fields(fields)
+    .draft();
+}
+
+/**
+ * Applies factory metadata with the same defaults as createBaseContract
+ */
+function withMetadataDefaults<B extends ContractBuilder<any>>(builder: B, metadata: any): B {
+  return builder.metadata(createBaseContract('', '', createContractVersion(1, 0, 0), metadata).metadata as ContractMetadata);
 }
 
 /**
@@ -0,0 +1,398 @@
+/**
+ * Semantic version parsing, precedence and range matching
+ */
+
+import { ContractVersion } from '../types';
+
+/**
+ * A single comparator such as `>=1.2.0`
+ */
+export interface VersionComparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: ContractVersion;
+}
+
+/**
+ * A parsed range: comparator sets OR-ed together, where every comparator
+ * in a set must match
+ */
+export type VersionRange = VersionComparator[][];
+
+/**
+ * Options for range matching
+ */
+export interface RangeOptions {
+  /**
+   * Let prerelease versions match any comparator set. By default a
+   * prerelease only matches when a comparator in the set names a prerelease
+   * of the same major.minor.patch.
+   */
+  includePrerelease?: boolean;
+}
+
+/**
+ * Converts a semantic version string to ContractVersion object
+ */
+export function parseSemanticVersion(version: string): ContractVersion {
+  const match = version.match(/^(\d+)\.(\d+)\.(\d+)(?:-([^+]+))?(?:\+(.+))?$/);
+  if (!match) {
+    throw new Error(`Invalid semantic version: ${version}`);
+  }
+  
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: parseInt(match[3], 10),
+    prerelease: match[4] || undefined,
+    build: match[5] || undefined
+  };
+}
+
+/**
+ * Converts a ContractVersion object to semantic version string
+ */
+export function toSemanticVersion(version: ContractVersion): string {
+  let versionString = `${version.major}.${version.minor}.${version.patch}`;
+  
+  if (version.prerelease) {
+    versionString += `-${version.prerelease}`;
+  }
+  
+  if (version.build) {
+    versionString += `+${version.build}`;
+  }
+  
+  return versionString;
+}
+
+/**
+ * Compares two contract versions using SemVer 2.0 precedence
+ * Returns: -1 if v1 < v2, 0 if v1 === v2, 1 if v1 > v2
+ */
+export function compareVersions(v1: ContractVersion, v2: ContractVersion): number {
+  // Compare major, minor and patch numerically
+  const core = Math.sign(v1.major - v2.major) || Math.sign(v1.minor - v2.minor) || Math.sign(v1.patch - v2.patch);
+  if (core !== 0) {
+    return core;
+  }
+  
+  // A version without prerelease has higher precedence than one with it
+  if (!v1.prerelease || !v2.prerelease) {
+    if (v1.prerelease) return -1;
+    if (v2.prerelease) return 1;
+    return 0;
+  }
+  
+  // Build metadata is ignored for precedence
+  return comparePrerelease(v1.prerelease, v2.prerelease);
+}
+
+/**
+ * Compares two prerelease strings identifier by identifier.
+ * Numeric identifiers compare numerically and sort below alphanumeric ones;
+ * a shorter set of identifiers sorts first when all preceding ones are equal.
+ */
+export function comparePrerelease(a: string, b: string): number {
+  const left = a.split('.');
+  const right = b.split('.');
+  
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    if (left[i] === undefined) return -1;
+    if (right[i] === undefined) return 1;
+    
+    const leftNumeric = /^\d+$/.test(left[i]);
+    const rightNumeric = /^\d+$/.test(right[i]);
+    
+    if (leftNumeric && rightNumeric) {
+      const diff = Number(left[i]) - Number(right[i]);
+      if (diff !== 0) return Math.sign(diff);
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    } else if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  
+  return 0;
+}
+
+/**
+ * Parses a version range such as `^1.2.0`, `~1.0`, `>=1.0.0 <2.0.0`, `1.x`,
+ * `1.2.3 - 2.0.0` or several of those joined with `||`
+ */
+export function parseVersionRange(range: string): VersionRange {
+  return range.split('||').map(set => parseComparatorSet(set.trim(), range));
+}
+
+/**
+ * Checks whether a version satisfies a range
+ */
+export function satisfies(
+  version: ContractVersion | string,
+  range: string | VersionRange,
+  options: RangeOptions = {}
+): boolean {
+  let target: ContractVersion;
+  let parsedRange: VersionRange;
+  try {
+    target = typeof version === 'string' ? parseSemanticVersion(version) : version;
+    parsedRange = typeof range === 'string' ? parseVersionRange(range) : range;
+  } catch {
+    return false;
+  }
+  
+  return parsedRange.some(set => testComparatorSet(set, target, options));
+}
+
+/**
+ * Returns the highest version that satisfies a range
+ */
+export function maxSatisfying<T extends ContractVersion>(
+  versions: T[],
+  range: string | VersionRange,
+  options: RangeOptions = {}
+): T | undefined {
+  return pickSatisfying(versions, range, options, 1);
+}
+
+/**
+ * Returns the lowest version that satisfies a range
+ */
+export function minSatisfying<T extends ContractVersion>(
+  versions: T[],
+  range: string | VersionRange,
+  options: RangeOptions = {}
+): T | undefined {
+  return pickSatisfying(versions, range, options, -1);
+}
+
+/**
+ * Checks whether a string is a valid version range
+ */
+export function validateVersionRange(range: string): boolean {
+  try {
+    parseVersionRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A version where any of the trailing components may be a wildcard
+ */
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease?: string;
+}
+
+const PARTIAL_VERSION_PATTERN =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+function pickSatisfying<T extends ContractVersion>(
+  versions: T[],
+  range: string | VersionRange,
+  options: RangeOptions,
+  direction: 1 | -1
+): T | undefined {
+  let parsedRange: VersionRange;
+  try {
+    parsedRange = typeof range === 'string' ? parseVersionRange(range) : range;
+  } catch {
+    return undefined;
+  }
+  
+  let best: T | undefined;
+  for (const version of versions) {
+    if (!satisfies(version, parsedRange, options)) {
+      continue;
+    }
+    if (!best || compareVersions(version, best) * direction > 0) {
+      best = version;
+    }
+  }
+  return best;
+}
+
+function parseComparatorSet(set: string, range: string): VersionComparator[] {
+  const hyphen = set.match(/^(\S+)\s+-\s+(\S+)$/);
+  if (hyphen) {
+    return [
+      ...lowerBound('>=', parsePartialVersion(hyphen[1], range)),
+      ...upperBound('<=', parsePartialVersion(hyphen[2], range))
+    ];
+  }
+  
+  // Allow whitespace between an operator and its version, e.g. `>= 1.0.0`
+  const tokens = set.replace(/(\^|~|[<>]=?|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    return [];
+  }
+  
+  return tokens.flatMap(token => parseComparator(token, range));
+}
+
+function parseComparator(token: string, range: string): VersionComparator[] {
+  const match = token.match(/^(\^|~|[<>]=?|=)?(.*)$/) as RegExpMatchArray;
+  const operator = match[1] || '';
+  const partial = parsePartialVersion(match[2], range);
+  
+  switch (operator) {
+    case '^':
+      return caretRange(partial);
+    case '~':
+      return tildeRange(partial);
+    case '>':
+    case '>=':
+      return lowerBound(operator, partial);
+    case '<':
+    case '<=':
+      return upperBound(operator, partial);
+    default:
+      return [...lowerBound('>=', partial), ...upperBound('<=', partial)];
+  }
+}
+
+function parsePartialVersion(text: string, range: string): PartialVersion {
+  const match = text.match(PARTIAL_VERSION_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid version range: ${range}`);
+  }
+  
+  const component = (value: string | undefined) =>
+    value === undefined || /^[xX*]$/.test(value) ? undefined : parseInt(value, 10);
+  
+  const partial: PartialVersion = {
+    major: component(match[1]),
+    minor: component(match[2]),
+    patch: component(match[3]),
+    prerelease: match[4]
+  };
+  
+  // Nothing may follow a wildcard, e.g. `1.x.3`
+  if (
+    (partial.major === undefined && (partial.minor !== undefined || partial.patch !== undefined)) ||
+    (partial.minor === undefined && partial.patch !== undefined) ||
+    (partial.prerelease !== undefined && partial.patch === undefined)
+  ) {
+    throw new Error(`Invalid version range: ${range}`);
+  }
+  
+  return partial;
+}
+
+function lowerBound(operator: '>' | '>=', partial: PartialVersion): VersionComparator[] {
+  if (partial.major === undefined) {
+    // `>*` can never match; `>=*` matches everything
+    return operator === '>' ? [{ operator: '<', version: version(0, 0, 0, '0') }] : [];
+  }
+  
+  if (operator === '>' && partial.minor === undefined) {
+    return [{ operator: '>=', version: version(partial.major + 1, 0, 0) }];
+  }
+  if (operator === '>' && partial.patch === undefined) {
+    return [{ operator: '>=', version: version(partial.major, (partial.minor as number) + 1, 0) }];
+  }
+  
+  return [{
+    operator,
+    version: version(partial.major, partial.minor || 0, partial.patch || 0, partial.prerelease)
+  }];
+}
+
+function upperBound(operator: '<' | '<=', partial: PartialVersion): VersionComparator[] {
+  if (partial.major === undefined) {
+    // `<=*` matches everything; `<*` can never match
+    return operator === '<' ? [{ operator: '<', version: version(0, 0, 0, '0') }] : [];
+  }
+  
+  if (partial.minor === undefined) {
+    return operator === '<'
+      ? [{ operator: '<', version: version(partial.major, 0, 0, '0') }]
+      : [{ operator: '<', version: version(partial.major + 1, 0, 0, '0') }];
+  }
+  if (partial.patch === undefined) {
+    return operator === '<'
+      ? [{ operator: '<', version: version(partial.major, partial.minor, 0, '0') }]
+      : [{ operator: '<', version: version(partial.major, partial.minor + 1, 0, '0') }];
+  }
+  
+  return [{ operator, version: version(partial.major, partial.minor, partial.patch, partial.prerelease) }];
+}
+
+function caretRange(partial: PartialVersion): VersionComparator[] {
+  if (partial.major === undefined) {
+    return [];
+  }
+  
+  const lower = lowerBound('>=', partial);
+  const { major } = partial;
+  const minor = partial.minor || 0;
+  const patch = partial.patch || 0;
+  
+  let upper: ContractVersion;
+  if (major > 0 || partial.minor === undefined) {
+    upper = version(major + 1, 0, 0, '0');
+  } else if (minor > 0 || partial.patch === undefined) {
+    upper = version(0, minor + 1, 0, '0');
+  } else {
+    upper = version(0, 0, patch + 1, '0');
+  }
+  
+  return [...lower, { operator: '<', version: upper }];
+}
+
+function tildeRange(partial: PartialVersion): VersionComparator[] {
+  if (partial.major === undefined) {
+    return [];
+  }
+  
+  const upper = partial.minor === undefined
+    ? version(partial.major + 1, 0, 0, '0')
+    : version(partial.major, partial.minor + 1, 0, '0');
+  
+  return [...lowerBound('>=', partial), { operator: '<', version: upper }];
+}
+
+function testComparatorSet(set: VersionComparator[], target: ContractVersion, options: RangeOptions): boolean {
+  if (!set.every(comparator => testComparator(comparator, target))) {
+    return false;
+  }
+  
+  if (!target.prerelease || options.includePrerelease) {
+    return true;
+  }
+  
+  // Prereleases only match when the range opts into that exact release line.
+  // The synthetic `-0` upper bounds never count as opting in.
+  return set.some(({ operator, version: bound }) =>
+    bound.prerelease !== undefined &&
+    !(operator === '<' && bound.prerelease === '0') &&
+    bound.major === target.major &&
+    bound.minor === target.minor &&
+    bound.patch === target.patch
+  );
+}
+
+function testComparator(comparator: VersionComparator, target: ContractVersion): boolean {
+  const result = compareVersions(target, comparator.version);
+  
+  switch (comparator.operator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    default:
+      return result === 0;
+  }
+}
+
+function version(major: number, minor: number, patch: number, prerelease?: string): ContractVersion {
+  return prerelease === undefined ? { major, minor, patch } : { major, minor, patch, prerelease };
+}
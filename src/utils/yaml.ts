@@ -0,0 +1,73 @@
+/**
+ * Minimal YAML serialization for generated documents
+ */
+
+/**
+ * Serializes a JSON-compatible value as block-style YAML.
+ * `undefined` object properties are omitted, as with JSON.stringify.
+ */
+export function toYaml(value: any): string {
+  return `${renderValue(value, 0).replace(/^\n/, '')}\n`;
+}
+
+function renderValue(value: any, depth: number): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return ' []';
+    }
+    const pad = '  '.repeat(depth);
+    return value
+      .map(item => {
+        const rendered = renderValue(item, depth + 1);
+        // Nested collections start on the dash line
+        return rendered.startsWith('\n')
+          ? `\n${pad}-${rendered.replace(/^\n\s*/, ' ')}`
+          : `\n${pad}-${rendered}`;
+      })
+      .join('');
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    if (entries.length === 0) {
+      return ' {}';
+    }
+    const pad = '  '.repeat(depth);
+    return entries.map(([key, entry]) => `\n${pad}${renderKey(key)}:${renderValue(entry, depth + 1)}`).join('');
+  }
+
+  return ` ${renderScalar(value)}`;
+}
+
+function renderKey(key: string): string {
+  return needsQuotes(key) ? JSON.stringify(key) : key;
+}
+
+function renderScalar(value: any): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : value > 0 ? '.inf' : value < 0 ? '-.inf' : '.nan';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+
+  const text = String(value);
+  return needsQuotes(text) ? JSON.stringify(text) : text;
+}
+
+function needsQuotes(text: string): boolean {
+  return (
+    text === '' ||
+    text !== text.trim() ||
+    /[\n\r\t]/.test(text) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /: |\s#|:$/.test(text) ||
+    /^(true|false|yes|no|on|off|null|~|y|n)$/i.test(text) ||
+    // YAML 1.1 timestamps, which parsers such as js-yaml read back as dates
+    /^\d{4}-\d\d?-\d\d?(([Tt]|[ \t]+)\d\d?:\d\d:\d\d(\.\d*)?([ \t]*(Z|[-+]\d\d?(:\d\d)?))?)?$/.test(text) ||
+    /^[-+]?(\d[\d_]*(\.\d*)?([eE][-+]?\d+)?|\.\d+|\.inf|\.nan|0x[0-9a-fA-F]+|0o[0-7]+)$/i.test(text)
+  );
+}
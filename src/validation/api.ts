@@ -0,0 +1,202 @@
+/**
+ * Runtime validation of API calls against an ApiContract
+ */
+
+import type { ApiContract } from '../types';
+import type { ValidationError, ValidationResult } from './index';
+import { extractPathParameters } from '../utils';
+import { collectSchemaErrors, joinPath } from './json-schema';
+
+/**
+ * An incoming API request as seen by either side of the call
+ */
+export interface ApiRequestData {
+  /** Path parameters, keyed by the names used in the contract path */
+  params?: Record<string, string>;
+  /** Query string values */
+  query?: Record<string, string | string[]>;
+  /** Request body */
+  body?: any;
+}
+
+/**
+ * Methods whose requests do not carry a body. For these the contract's
+ * `requestSchema` describes the query string instead.
+ */
+const BODYLESS_METHODS: ReadonlyArray<ApiContract['method']> = ['GET', 'DELETE'];
+
+/**
+ * Validates a request against an API contract: path parameters derived from
+ * `path`, the body (or, for GET and DELETE, the query) against
+ * `requestSchema`, and the absence of a body on bodyless methods
+ */
+export function validateApiRequest(contract: ApiContract, request: ApiRequestData): ValidationResult {
+  const errors: ValidationError[] = [];
+  const params = request.params || {};
+  const expectedParams = extractPathParameters(contract.path);
+
+  for (const name of expectedParams) {
+    const value = params[name];
+    if (value === undefined || value === null || value === '') {
+      errors.push({
+        path: joinPath('params', name),
+        message: `Required path parameter '${name}' is missing`,
+        expected: 'defined value'
+      });
+    }
+  }
+  for (const name of Object.keys(params)) {
+    if (!expectedParams.includes(name)) {
+      errors.push({
+        path: joinPath('params', name),
+        message: `Path parameter '${name}' is not defined by ${contract.path}`,
+        value: params[name],
+        expected: expectedParams
+      });
+    }
+  }
+
+  if (isBodylessMethod(contract.method)) {
+    if (!isEmptyBody(request.body)) {
+      errors.push({
+        path: 'body',
+        message: `${contract.method} requests must not have a body`,
+        value: request.body,
+        expected: 'no body'
+      });
+    }
+    if (contract.requestSchema) {
+      const query = coerceQuery(request.query || {}, contract.requestSchema);
+      errors.push(...collectSchemaErrors(query, contract.requestSchema, 'query'));
+    }
+  } else if (contract.requestSchema) {
+    if (request.body === undefined) {
+      errors.push({
+        path: 'body',
+        message: `${contract.method} ${contract.path} requires a request body`,
+        expected: 'request body'
+      });
+    } else {
+      errors.push(...collectSchemaErrors(request.body, contract.requestSchema, 'body'));
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates a response against an API contract.
+ *
+ * `responseSchema` is either a single schema that applies to 2xx responses,
+ * or a map keyed by status code (`"200"`, `"4XX"`, `"default"`) in the
+ * style of OpenAPI. Statuses without a matching schema are not checked.
+ */
+export function validateApiResponse(contract: ApiContract, status: number, body: any): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  if (!Number.isInteger(status) || status < 100 || status > 599) {
+    errors.push({
+      path: 'status',
+      message: `Status code must be an integer between 100 and 599`,
+      value: status,
+      expected: '100-599'
+    });
+  } else if ((status === 204 || status === 304) && !isEmptyBody(body)) {
+    errors.push({
+      path: 'body',
+      message: `Responses with status ${status} must not have a body`,
+      value: body,
+      expected: 'no body'
+    });
+  } else {
+    const schema = selectResponseSchema(contract.responseSchema, status);
+    if (schema) {
+      errors.push(...collectSchemaErrors(body, schema, 'body'));
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Whether requests with the given method are sent without a body
+ */
+export function isBodylessMethod(method: ApiContract['method']): boolean {
+  return BODYLESS_METHODS.includes(method);
+}
+
+/**
+ * Picks the schema that applies to a response status
+ */
+export function selectResponseSchema(
+  responseSchema: Record<string, any> | undefined,
+  status: number
+): Record<string, any> | undefined {
+  if (!responseSchema) {
+    return undefined;
+  }
+
+  if (!isStatusKeyedSchema(responseSchema)) {
+    return status >= 200 && status < 300 ? responseSchema : undefined;
+  }
+
+  const code = String(status);
+  const range = `${code[0]}XX`;
+  return responseSchema[code] || responseSchema[range] || responseSchema[range.toLowerCase()] || responseSchema.default;
+}
+
+/**
+ * Whether a response schema is a map of status codes to schemas
+ */
+export function isStatusKeyedSchema(responseSchema: Record<string, any>): boolean {
+  const keys = Object.keys(responseSchema);
+  return keys.length > 0 && keys.every(key => /^([1-5](\d\d|XX|xx)|default)$/.test(key));
+}
+
+/**
+ * Converts query string values to the types declared by the top-level
+ * properties of a schema, since query strings only carry text
+ */
+export function coerceQuery(
+  query: Record<string, string | string[]>,
+  schema: Record<string, any>
+): Record<string, any> {
+  const properties: Record<string, any> = schema.properties || {};
+  const coerced: Record<string, any> = {};
+
+  for (const [name, raw] of Object.entries(query)) {
+    const propertySchema = properties[name] || {};
+    if (propertySchema.type === 'array') {
+      const items = Array.isArray(raw) ? raw : [raw];
+      coerced[name] = items.map(item => coerceScalar(item, propertySchema.items?.type));
+    } else {
+      coerced[name] = coerceScalar(Array.isArray(raw) ? raw[raw.length - 1] : raw, propertySchema.type);
+    }
+  }
+
+  return coerced;
+}
+
+function coerceScalar(value: string, type: string | undefined): any {
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'null':
+      return value === '' || value === 'null' ? null : value;
+    default:
+      return value;
+  }
+}
+
+function isEmptyBody(body: any): boolean {
+  return body === undefined || body === null || body === '';
+}
@@ -0,0 +1,342 @@
+/**
+ * Validation of instance data against FieldDefinition maps
+ */
+
+import type { FieldDefinition, ValidationRule } from '../types';
+import type { ValidationError } from './index';
+import { getJsonType, joinPath, matchesFormat } from './json-schema';
+
+/**
+ * Options for field map validation
+ */
+export interface FieldValidationOptions {
+  /** Reject properties that have no field definition */
+  strict?: boolean;
+}
+
+/**
+ * Normalizes a field definition, expanding the `{ name: 'string' }`
+ * shorthand into a full FieldDefinition
+ */
+export function normalizeFieldDefinition(definition: FieldDefinition | string): FieldDefinition {
+  return typeof definition === 'string' ? { type: definition } : definition;
+}
+
+/**
+ * Validates an object against a map of field definitions.
+ * `null` and `undefined` both count as a missing value.
+ */
+export function validateFieldMap(
+  data: any,
+  fields: Record<string, FieldDefinition | string>,
+  path: string = '',
+  options: FieldValidationOptions = {}
+): ValidationError[] {
+  if (getJsonType(data) !== 'object') {
+    return [{
+      path,
+      message: `Field '${path || '(root)'}' must be of type object`,
+      value: data,
+      expected: 'object'
+    }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  for (const [name, rawDefinition] of Object.entries(fields)) {
+    const definition = normalizeFieldDefinition(rawDefinition);
+    const fieldPath = joinPath(path, name);
+    const value = data[name];
+
+    if (value === undefined || value === null) {
+      if (definition.required) {
+        errors.push({
+          path: fieldPath,
+          message: `Required field '${fieldPath}' is missing`,
+          expected: 'defined value'
+        });
+      }
+      continue;
+    }
+
+    errors.push(...validateFieldValue(value, definition, fieldPath, options));
+  }
+
+  if (options.strict) {
+    for (const name of Object.keys(data)) {
+      if (data[name] !== undefined && !(name in fields)) {
+        const fieldPath = joinPath(path, name);
+        errors.push({
+          path: fieldPath,
+          message: `Field '${fieldPath}' is not defined`,
+          value: data[name],
+          expected: 'no additional fields'
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a single present value against its field definition
+ */
+export function validateFieldValue(
+  value: any,
+  definition: FieldDefinition,
+  path: string,
+  options: FieldValidationOptions = {}
+): ValidationError[] {
+  if (!matchesFieldType(value, definition.type)) {
+    return [{
+      path,
+      message: `Field '${path}' must be of type ${definition.type}`,
+      value,
+      expected: definition.type
+    }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  for (const rule of definition.validation || []) {
+    const error = checkRule(value, rule, path, definition.type);
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  if (definition.type === 'object' && definition.properties) {
+    errors.push(...validateFieldMap(value, definition.properties, path, options));
+  }
+
+  if (definition.type === 'array' && definition.items) {
+    const items = normalizeFieldDefinition(definition.items);
+    (value as any[]).forEach((item, index) => {
+      const itemPath = joinPath(path, index);
+      if (item === undefined || item === null) {
+        errors.push({
+          path: itemPath,
+          message: `Field '${itemPath}' must not be empty`,
+          value: item,
+          expected: items.type
+        });
+      } else {
+        errors.push(...validateFieldValue(item, items, itemPath, options));
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Checks a value against a FieldDefinition type name. Unknown type names
+ * (for example references to other models) are not checked.
+ */
+export function matchesFieldType(value: any, type: string): boolean {
+  const actual = getJsonType(value);
+
+  switch (type) {
+    case 'string':
+    case 'boolean':
+    case 'array':
+      return actual === type;
+    case 'number':
+      return actual === 'number' || actual === 'integer';
+    case 'integer':
+      return actual === 'integer';
+    case 'object':
+      return actual === 'object';
+    case 'date':
+      if (value instanceof Date) {
+        return !isNaN(value.getTime());
+      }
+      return actual === 'string' && (matchesFormat('date-time', value) || matchesFormat('date', value));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Converts a FieldDefinition map to an equivalent JSON Schema object.
+ * `custom` rules and references to other models have no JSON Schema
+ * counterpart and are left unconstrained.
+ */
+export function fieldMapToJsonSchema(fields: Record<string, FieldDefinition | string>): Record<string, any> {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const [name, raw] of Object.entries(fields)) {
+    const definition = normalizeFieldDefinition(raw);
+    properties[name] = fieldToJsonSchema(definition);
+    if (definition.required) {
+      required.push(name);
+    }
+  }
+
+  const schema: Record<string, any> = { type: 'object', properties };
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  return schema;
+}
+
+/**
+ * Converts a single FieldDefinition to JSON Schema
+ */
+export function fieldToJsonSchema(definition: FieldDefinition): Record<string, any> {
+  let schema: Record<string, any>;
+
+  switch (definition.type) {
+    case 'string':
+    case 'number':
+    case 'integer':
+    case 'boolean':
+      schema = { type: definition.type };
+      break;
+    case 'date':
+      // Same values matchesFieldType accepts: a date-time or a full date
+      schema = { type: 'string', anyOf: [{ format: 'date-time' }, { format: 'date' }] };
+      break;
+    case 'object':
+      schema = definition.properties ? fieldMapToJsonSchema(definition.properties) : { type: 'object' };
+      break;
+    case 'array':
+      schema = { type: 'array' };
+      if (definition.items) {
+        schema.items = fieldToJsonSchema(normalizeFieldDefinition(definition.items));
+      }
+      break;
+    default:
+      schema = {};
+  }
+
+  if (definition.description) {
+    schema.description = definition.description;
+  }
+  if (definition.default !== undefined) {
+    schema.default = definition.default;
+  }
+
+  for (const rule of definition.validation || []) {
+    switch (rule.type) {
+      case 'min':
+      case 'max': {
+        const keyword = sizeKeyword(definition.type, rule.type);
+        if (keyword) {
+          schema[keyword] = rule.value;
+        }
+        break;
+      }
+      case 'pattern':
+        schema.pattern = rule.value;
+        break;
+      case 'enum':
+        schema.enum = rule.value;
+        break;
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * JSON Schema keyword for a min/max rule; dates have none in draft-07
+ */
+function sizeKeyword(type: string, rule: 'min' | 'max'): string | undefined {
+  switch (type) {
+    case 'string':
+      return rule === 'min' ? 'minLength' : 'maxLength';
+    case 'array':
+      return rule === 'min' ? 'minItems' : 'maxItems';
+    case 'number':
+    case 'integer':
+      return rule === 'min' ? 'minimum' : 'maximum';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Evaluates a ValidationRule. `custom` rules carry no executable logic in
+ * a serialized contract and are skipped.
+ */
+function checkRule(value: any, rule: ValidationRule, path: string, type: string): ValidationError | undefined {
+  const fail = (defaultMessage: string, expected: any): ValidationError => ({
+    path,
+    message: rule.message || defaultMessage,
+    value,
+    expected
+  });
+
+  switch (rule.type) {
+    case 'min': {
+      const size = measure(value, type);
+      const bound = measureBound(rule.value, type);
+      if (size !== undefined && bound !== undefined && size < bound) {
+        return fail(`Field '${path}' must be at least ${rule.value}`, `>= ${rule.value}`);
+      }
+      return undefined;
+    }
+    case 'max': {
+      const size = measure(value, type);
+      const bound = measureBound(rule.value, type);
+      if (size !== undefined && bound !== undefined && size > bound) {
+        return fail(`Field '${path}' must be at most ${rule.value}`, `<= ${rule.value}`);
+      }
+      return undefined;
+    }
+    case 'pattern':
+      if (typeof value === 'string' && !new RegExp(rule.value).test(value)) {
+        return fail(`Field '${path}' must match pattern ${rule.value}`, rule.value);
+      }
+      return undefined;
+    case 'enum':
+      if (Array.isArray(rule.value) && !rule.value.includes(value)) {
+        return fail(`Field '${path}' must be one of: ${rule.value.join(', ')}`, rule.value);
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns the quantity that min/max rules compare: string and array length,
+ * numeric value, or epoch milliseconds for dates
+ */
+function measure(value: any, type: string): number | undefined {
+  if (type === 'date') {
+    return toEpochMilliseconds(value);
+  }
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return value.length;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  return undefined;
+}
+
+/**
+ * Converts a min/max rule value to the scale `measure` uses; date bounds
+ * may be ISO strings or epoch milliseconds
+ */
+function measureBound(bound: any, type: string): number | undefined {
+  if (type === 'date') {
+    return toEpochMilliseconds(bound);
+  }
+  return typeof bound === 'number' ? bound : undefined;
+}
+
+function toEpochMilliseconds(value: any): number | undefined {
+  const time = value instanceof Date ? value.getTime()
+    : typeof value === 'string' ? Date.parse(value)
+    : typeof value === 'number' ? value
+    : NaN;
+  return isNaN(time) ? undefined : time;
+}
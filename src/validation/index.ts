@@ -2,8 +2,15 @@
  * Contract validation utilities
  */
 
-import { BaseContract, EventContract, ApiContract, DataModelContract } from '../types';
+import { BaseContract, ContractKind, ContractOfKind, EventContract, ApiContract, DataModelContract, FieldDefinition } from '../types';
+import { inferContractKind } from '../utils';
 import { schemas } from '../schemas';
+import { collectSchemaErrors, joinPath } from './json-schema';
+import { validateFieldMap, FieldValidationOptions } from './fields';
+
+export { FieldValidationOptions, fieldMapToJsonSchema, fieldToJsonSchema } from './fields';
+export * from './api';
+export * from './integrity';
 
 /**
  * Validation result interface
@@ -32,103 +39,192 @@ export interface ValidationError {
 /**
  * Validates a base contract against its schema
  */
-export function validateBaseContract(contract: any): ValidationResult {
+export function validateBaseContract(contract: unknown): ValidationResult {
   return validateAgainstSchema(contract, schemas.baseContract);
 }
 
 /**
  * Validates an event contract against its schema
  */
-export function validateEventContract(contract: any): ValidationResult {
+export function validateEventContract(contract: unknown): ValidationResult {
   return validateAgainstSchema(contract, schemas.eventContract);
 }
 
 /**
  * Validates an API contract against its schema
  */
-export function validateApiContract(contract: any): ValidationResult {
+export function validateApiContract(contract: unknown): ValidationResult {
   return validateAgainstSchema(contract, schemas.apiContract);
 }
 
 /**
  * Validates a data model contract against its schema
  */
-export function validateDataModelContract(contract: any): ValidationResult {
+export function validateDataModelContract(contract: unknown): ValidationResult {
   return validateAgainstSchema(contract, schemas.dataModelContract);
 }
 
 /**
- * Generic schema validation function
- * Note: In a real implementation, this would use a JSON Schema validator like ajv
+ * Result of parsing untrusted input as a contract
  */
-export function validateAgainstSchema(data: any, schema: any): ValidationResult {
-  // This is a simplified validation implementation
-  // In production, you would use a proper JSON Schema validator like ajv
+export type ParseContractResult =
+  | { [K in ContractKind]: { valid: true; kind: K; contract: ContractOfKind<K> } }[ContractKind]
+  | {
+      valid: false;
+      /** `unknown-kind` when the input is not recognisably any contract kind */
+      code: 'unknown-kind' | 'invalid-contract';
+      /** Kind the input was validated as, when one was detected */
+      kind?: ContractKind;
+      errors: ValidationError[];
+    };
+
+/**
+ * Parses untrusted input, such as decoded JSON, as a contract. The kind
+ * comes from the `kind` discriminant or, for older contracts, from the
+ * kind-specific fields; the input is then validated against that kind's schema.
+ * The returned contract is a copy that always carries `kind`.
+ */
+export function parseContract(input: unknown): ParseContractResult {
+  const kind = inferContractKind(input);
+  if (!kind) {
+    return {
+      valid: false,
+      code: 'unknown-kind',
+      errors: [{
+        path: '',
+        message: input !== null && typeof input === 'object' && !Array.isArray(input)
+          ? 'Unable to detect contract kind; expected kind, eventType, method and path, or modelName'
+          : 'Contract must be an object',
+        value: input
+      }]
+    };
+  }
+
+  const result = validateContractOfKind(kind, input);
+  if (!result.valid) {
+    return { valid: false, code: 'invalid-contract', kind, errors: result.errors };
+  }
+  return { valid: true, kind, contract: { ...(input as object), kind } } as ParseContractResult;
+}
+
+/**
+ * Validates a contract against the schema of the given kind
+ */
+export function validateContractOfKind(kind: ContractKind, contract: unknown): ValidationResult {
+  switch (kind) {
+    case 'event':
+      return validateEventContract(contract);
+    case 'api':
+      return validateApiContract(contract);
+    case 'data-model':
+      return validateDataModelContract(contract);
+  }
+}
+
+/**
+ * Validates an emitted event body against the payload definition of an
+ * event contract
+ */
+export function validateEventPayload(
+  contract: EventContract,
+  payload: any,
+  options: FieldValidationOptions = {}
+): ValidationResult {
+  const errors = validateFieldMap(payload, contract.payload, '', options);
+  
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates a single record against a data model contract. A missing
+ * required field is accepted when its definition provides a `default`.
+ */
+export function validateRecord(
+  model: DataModelContract,
+  record: any,
+  options: FieldValidationOptions = {}
+): ValidationResult {
+  const errors = validateFieldMap(record, withDefaultsOptional(model.fields), '', options);
   
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validates a batch of records against a data model contract, including
+ * `constraints.unique` across the whole batch. Error paths are prefixed
+ * with the record index, e.g. `[3].email`.
+ */
+export function validateRecords(
+  model: DataModelContract,
+  records: any[],
+  options: FieldValidationOptions = {}
+): ValidationResult {
+  const fields = withDefaultsOptional(model.fields);
   const errors: ValidationError[] = [];
   
-  // Basic type checking for required fields
-  if (schema.required) {
-    for (const field of schema.required) {
-      if (!(field in data) || data[field] === undefined || data[field] === null) {
-        errors.push({
-          path: field,
-          message: `Required field '${field}' is missing`,
-          expected: 'defined value'
-        });
+  records.forEach((record, index) => {
+    errors.push(...validateFieldMap(record, fields, joinPath('', index), options));
+  });
+  
+  for (const field of model.constraints?.unique || []) {
+    const seen = new Map<string, number>();
+    
+    records.forEach((record, index) => {
+      const value = record?.[field];
+      if (value === undefined || value === null) {
+        return;
       }
-    }
+      
+      const key = JSON.stringify(value);
+      const firstIndex = seen.get(key);
+      if (firstIndex === undefined) {
+        seen.set(key, index);
+        return;
+      }
+      
+      errors.push({
+        path: joinPath(joinPath('', index), field),
+        message: `Field '${field}' must be unique; value already used by record ${firstIndex}`,
+        value,
+        expected: 'unique value'
+      });
+    });
   }
   
-  // Basic property type checking
-  if (schema.properties) {
-    for (const [property, propSchema] of Object.entries(schema.properties)) {
-      if (data[property] !== undefined) {
-        const value = data[property];
-        const schemaDef = propSchema as any;
-        
-        // Type validation
-        if (schemaDef.type && typeof value !== schemaDef.type) {
-          errors.push({
-            path: property,
-            message: `Field '${property}' must be of type ${schemaDef.type}`,
-            value,
-            expected: schemaDef.type
-          });
-        }
-        
-        // String length validation
-        if (schemaDef.type === 'string') {
-          if (schemaDef.minLength && value.length < schemaDef.minLength) {
-            errors.push({
-              path: property,
-              message: `Field '${property}' must be at least ${schemaDef.minLength} characters long`,
-              value,
-              expected: `minimum ${schemaDef.minLength} characters`
-            });
-          }
-          if (schemaDef.maxLength && value.length > schemaDef.maxLength) {
-            errors.push({
-              path: property,
-              message: `Field '${property}' must be at most ${schemaDef.maxLength} characters long`,
-              value,
-              expected: `maximum ${schemaDef.maxLength} characters`
-            });
-          }
-        }
-        
-        // Enum validation
-        if (schemaDef.enum && !schemaDef.enum.includes(value)) {
-          errors.push({
-            path: property,
-            message: `Field '${property}' must be one of: ${schemaDef.enum.join(', ')}`,
-            value,
-            expected: schemaDef.enum
-          });
-        }
-      }
-    }
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Relaxes `required` on fields that declare a default, since the default
+ * is filled in when the record is stored
+ */
+function withDefaultsOptional(fields: Record<string, FieldDefinition>): Record<string, FieldDefinition> {
+  const relaxed: Record<string, FieldDefinition> = {};
+  for (const [name, definition] of Object.entries(fields)) {
+    relaxed[name] = definition.required && definition.default !== undefined
+      ? { ...definition, required: false }
+      : definition;
   }
+  return relaxed;
+}
+
+/**
+ * Generic schema validation function
+ * Supports JSON Schema draft-07, including composition keywords and local
+ * `$ref`s into `definitions`. Error paths point at the nested field,
+ * e.g. `version.major`.
+ */
+export function validateAgainstSchema(data: any, schema: any): ValidationResult {
+  const errors = collectSchemaErrors(data, schema);
   
   return {
     valid: errors.length === 0,
@@ -196,3 +292,20 @@ export function combineValidationResults(...results: ValidationResult[]): Valida
     errors: allErrors
   };
 }
+
+/**
+ * Thrown when a contract fails validation, carrying every error found
+ */
+export class ContractValidationError extends Error {
+  constructor(
+    /** Id of the invalid contract, when known */
+    public readonly contractId: string | undefined,
+    public readonly errors: ValidationError[]
+  ) {
+    super(
+      `Invalid contract${contractId ? ` '${contractId}'` : ''} (${errors.length} error(s)):\n` +
+      errors.map(error => `  - ${error.path || '(root)'}: ${error.message}`).join('\n')
+    );
+    this.name = 'ContractValidationError';
+  }
+}
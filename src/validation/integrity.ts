@@ -0,0 +1,282 @@
+/**
+ * Referential integrity checks across a set of data model contracts
+ */
+
+import type { DataModelContract, FieldDefinition } from '../types';
+import { joinPath } from './json-schema';
+import { normalizeFieldDefinition } from './fields';
+
+/**
+ * Kinds of integrity issue
+ */
+export type IntegrityIssueCode =
+  | 'duplicate-model'
+  | 'unknown-model'
+  | 'unknown-field'
+  | 'unknown-referenced-field'
+  | 'set-null-required'
+  | 'non-unique-reference'
+  | 'type-mismatch'
+  | 'dependency-cycle';
+
+/**
+ * A broken or suspicious relation between models
+ */
+export interface IntegrityIssue {
+  code: IntegrityIssueCode;
+  /** `warning` for cycles that can still be populated through nullable foreign keys */
+  severity: 'error' | 'warning';
+  /** Model the issue was found in */
+  model: string;
+  /** Path within that model, e.g. `constraints.foreignKeys[0].references` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Result of an integrity check
+ */
+export interface IntegrityReport {
+  /** False when any issue is an error */
+  valid: boolean;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Options for integrity checks
+ */
+export interface IntegrityOptions {
+  /** Field treated as each model's primary key, and so unique (default 'id') */
+  primaryKey?: string;
+}
+
+/**
+ * Checks the relations between data models: foreign keys must name
+ * existing models and fields, point at unique columns of the same type and
+ * not `set-null` a required field, constraints must name existing fields,
+ * and foreign keys should not form cycles. Models are matched by
+ * `modelName` or contract id; pass a single version of each model.
+ */
+export function checkModelIntegrity(
+  models: DataModelContract[],
+  options: IntegrityOptions = {}
+): IntegrityReport {
+  const issues: IntegrityIssue[] = [];
+  const primaryKey = options.primaryKey || 'id';
+
+  const seen = new Map<string, DataModelContract>();
+  for (const model of models) {
+    const previous = seen.get(model.modelName);
+    if (previous) {
+      issues.push({
+        code: 'duplicate-model',
+        severity: 'error',
+        model: model.modelName,
+        path: 'modelName',
+        message: `Model name '${model.modelName}' is used by both ${previous.id} and ${model.id}`
+      });
+    } else {
+      seen.set(model.modelName, model);
+    }
+  }
+
+  for (const model of models) {
+    checkConstraintFields(model, issues);
+    checkForeignKeys(model, models, primaryKey, issues);
+  }
+  checkCycles(models, issues);
+
+  return {
+    valid: !issues.some(issue => issue.severity === 'error'),
+    issues
+  };
+}
+
+function checkConstraintFields(model: DataModelContract, issues: IntegrityIssue[]): void {
+  for (const list of ['unique', 'indexes'] as const) {
+    (model.constraints?.[list] || []).forEach((field, index) => {
+      if (!model.fields[field]) {
+        issues.push({
+          code: 'unknown-field',
+          severity: 'error',
+          model: model.modelName,
+          path: joinPath(joinPath('constraints', list), index),
+          message: `${list === 'unique' ? 'Unique constraint' : 'Index'} names unknown field '${field}'`
+        });
+      }
+    });
+  }
+}
+
+function checkForeignKeys(
+  model: DataModelContract,
+  models: DataModelContract[],
+  primaryKey: string,
+  issues: IntegrityIssue[]
+): void {
+  (model.constraints?.foreignKeys || []).forEach((foreignKey, index) => {
+    const path = joinPath('constraints.foreignKeys', index);
+    const issue = (code: IntegrityIssueCode, key: string, message: string) => issues.push({
+      code,
+      severity: 'error',
+      model: model.modelName,
+      path: joinPath(path, key),
+      message
+    });
+
+    const local = model.fields[foreignKey.field] && normalizeFieldDefinition(model.fields[foreignKey.field]);
+    if (!local) {
+      issue('unknown-field', 'field', `Foreign key field '${foreignKey.field}' is not a field of ${model.modelName}`);
+    }
+    for (const action of ['onDelete', 'onUpdate'] as const) {
+      if (local?.required && foreignKey[action] === 'set-null') {
+        issue('set-null-required', action, `${action} 'set-null' cannot apply to required field '${foreignKey.field}'`);
+      }
+    }
+
+    const target = findModel(models, foreignKey.references);
+    if (!target) {
+      issue('unknown-model', 'references', `Foreign key on '${foreignKey.field}' references unknown model '${foreignKey.references}'`);
+      return;
+    }
+
+    const referenced = target.fields[foreignKey.referencedField];
+    if (!referenced) {
+      issue(
+        'unknown-referenced-field',
+        'referencedField',
+        `Foreign key on '${foreignKey.field}' references unknown field '${foreignKey.referencedField}' of ${target.modelName}`
+      );
+      return;
+    }
+
+    const unique = foreignKey.referencedField === primaryKey || (target.constraints?.unique || []).includes(foreignKey.referencedField);
+    if (!unique) {
+      issue(
+        'non-unique-reference',
+        'referencedField',
+        `Foreign key on '${foreignKey.field}' references ${target.modelName}.${foreignKey.referencedField}, which is not unique`
+      );
+    }
+
+    const referencedType = normalizeFieldDefinition(referenced).type;
+    if (local && local.type !== referencedType) {
+      issue(
+        'type-mismatch',
+        'field',
+        `Foreign key field '${foreignKey.field}' is of type ${local.type} but ` +
+        `${target.modelName}.${foreignKey.referencedField} is of type ${referencedType}`
+      );
+    }
+  });
+}
+
+type ForeignKeyEdges = Map<DataModelContract, Array<{ target: DataModelContract; required: boolean }>>;
+
+/**
+ * Reports each strongly connected group of models linked by foreign keys.
+ * A cycle is an error when it contains a loop of required foreign keys,
+ * since no record on that loop could be inserted first; nullable
+ * self-references are allowed.
+ */
+function checkCycles(models: DataModelContract[], issues: IntegrityIssue[]): void {
+  const edges: ForeignKeyEdges = new Map();
+  for (const model of models) {
+    edges.set(model, (model.constraints?.foreignKeys || []).flatMap(foreignKey => {
+      const target = findModel(models, foreignKey.references);
+      const field: FieldDefinition | undefined = model.fields[foreignKey.field] &&
+        normalizeFieldDefinition(model.fields[foreignKey.field]);
+      return target ? [{ target, required: field?.required === true }] : [];
+    }));
+  }
+
+  for (const component of stronglyConnected(models, edges)) {
+    if (!hasCycle(component, edges)) {
+      continue;
+    }
+
+    // Rerun on the required edges alone: a nullable key anywhere on a loop
+    // lets that loop be broken, but not a separate all-required loop
+    const requiredEdges: ForeignKeyEdges = new Map(component.map(model => [
+      model,
+      (edges.get(model) || []).filter(edge => edge.required)
+    ]));
+    const required = stronglyConnected(component, requiredEdges).some(group => hasCycle(group, requiredEdges));
+
+    const names = component.map(model => model.modelName);
+    if (component.length === 1 && !required) {
+      // Nullable self-references (trees, linked lists) are a normal pattern
+      continue;
+    }
+
+    const subject = component.length === 1
+      ? `${names[0]} references itself`
+      : `Foreign keys form a cycle between ${names.join(', ')}`;
+    issues.push({
+      code: 'dependency-cycle',
+      severity: required ? 'error' : 'warning',
+      model: names[0],
+      path: 'constraints.foreignKeys',
+      message: required ? `${subject} through required fields; no record can be inserted first` : subject
+    });
+  }
+}
+
+/**
+ * Whether a strongly connected group contains a cycle: more than one
+ * model, or a single model referencing itself
+ */
+function hasCycle(component: DataModelContract[], edges: ForeignKeyEdges): boolean {
+  return component.some(model => (edges.get(model) || []).some(edge => component.includes(edge.target)));
+}
+
+/**
+ * Tarjan's strongly connected components, restricted to `models`
+ */
+function stronglyConnected(models: DataModelContract[], edges: ForeignKeyEdges): DataModelContract[][] {
+  let counter = 0;
+  const index = new Map<DataModelContract, number>();
+  const lowLink = new Map<DataModelContract, number>();
+  const stack: DataModelContract[] = [];
+  const components: DataModelContract[][] = [];
+
+  const connect = (model: DataModelContract) => {
+    index.set(model, counter);
+    lowLink.set(model, counter);
+    counter++;
+    stack.push(model);
+
+    for (const { target } of edges.get(model) || []) {
+      if (!models.includes(target)) {
+        continue;
+      }
+      if (!index.has(target)) {
+        connect(target);
+        lowLink.set(model, Math.min(lowLink.get(model) as number, lowLink.get(target) as number));
+      } else if (stack.includes(target)) {
+        lowLink.set(model, Math.min(lowLink.get(model) as number, index.get(target) as number));
+      }
+    }
+
+    if (lowLink.get(model) === index.get(model)) {
+      const component: DataModelContract[] = [];
+      let member: DataModelContract;
+      do {
+        member = stack.pop() as DataModelContract;
+        component.unshift(member);
+      } while (member !== model);
+      components.push(component);
+    }
+  };
+
+  for (const model of models) {
+    if (!index.has(model)) {
+      connect(model);
+    }
+  }
+  return components;
+}
+
+function findModel(models: DataModelContract[], reference: string): DataModelContract | undefined {
+  return models.find(model => model.modelName === reference) || models.find(model => model.id === reference);
+}
@@ -0,0 +1,547 @@
+/**
+ * JSON Schema (draft-07) validation engine
+ */
+
+import type { ValidationError } from './index';
+
+/**
+ * State shared while walking a single schema document
+ */
+interface SchemaContext {
+  /** Root schema that local `$ref`s resolve against */
+  root: any;
+}
+
+/**
+ * Validators for the `format` keyword. Unknown formats are treated as
+ * annotations and always pass, as draft-07 allows.
+ */
+const formatValidators: Record<string, (value: string) => boolean> = {
+  'date-time': isDateTime,
+  date: value => isFullDate(value),
+  time: value => /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d)$/i.test(value),
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uri: value => /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/.test(value),
+  'uri-reference': value => !/\s/.test(value),
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  ipv4: value => /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(value),
+  hostname: value =>
+    value.length <= 253 &&
+    /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/.test(value)
+};
+
+/**
+ * Validates data against a draft-07 JSON Schema and returns every error found.
+ * Error paths are dotted property paths with bracketed array indexes,
+ * e.g. `version.major` or `metadata.tags[0]`.
+ */
+export function collectSchemaErrors(data: any, schema: any, path: string = ''): ValidationError[] {
+  const errors: ValidationError[] = [];
+  validateNode(data, schema, path, { root: schema }, errors);
+  return errors;
+}
+
+/**
+ * Checks a string against a named `format`; unknown formats always pass
+ */
+export function matchesFormat(format: string, value: string): boolean {
+  const check = formatValidators[format];
+  return check ? check(value) : true;
+}
+
+/**
+ * Returns the JSON Schema type name of a value
+ */
+export function getJsonType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Deep equality as defined for `enum`, `const` and `uniqueItems`
+ */
+export function jsonEquals(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => jsonEquals(item, b[index]));
+  }
+  const aKeys = Object.keys(a).filter(key => a[key] !== undefined);
+  const bKeys = Object.keys(b).filter(key => b[key] !== undefined);
+  return aKeys.length === bKeys.length && aKeys.every(key => jsonEquals(a[key], b[key]));
+}
+
+/**
+ * Appends a property name or array index to a path
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Resolves a local JSON pointer reference such as `#/definitions/Foo`
+ */
+export function resolveLocalRef(root: any, ref: string): any {
+  if (ref === '#') {
+    return root;
+  }
+  if (!ref.startsWith('#/')) {
+    return undefined;
+  }
+
+  let target = root;
+  for (const rawSegment of ref.slice(2).split('/')) {
+    const segment = decodeURIComponent(rawSegment).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (target === null || typeof target !== 'object' || !(segment in target)) {
+      return undefined;
+    }
+    target = target[segment];
+  }
+  return target;
+}
+
+function validateNode(
+  data: any,
+  schema: any,
+  path: string,
+  context: SchemaContext,
+  errors: ValidationError[]
+): void {
+  if (schema === true || schema === undefined) {
+    return;
+  }
+  if (schema === false) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' is not allowed`,
+      value: data,
+      expected: 'no value'
+    });
+    return;
+  }
+
+  // In draft-07 a $ref replaces every sibling keyword
+  if (typeof schema.$ref === 'string') {
+    const target = resolveLocalRef(context.root, schema.$ref);
+    if (target === undefined) {
+      errors.push({
+        path,
+        message: `Unable to resolve schema reference '${schema.$ref}'`,
+        expected: schema.$ref
+      });
+      return;
+    }
+    validateNode(data, target, path, context, errors);
+    return;
+  }
+
+  if (schema.type !== undefined && !matchesType(data, schema.type)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be of type ${expected}`,
+      value: data,
+      expected
+    });
+    // Further keywords would only add noise for a value of the wrong type
+    return;
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option: any) => jsonEquals(option, data))) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be one of: ${schema.enum.map(String).join(', ')}`,
+      value: data,
+      expected: schema.enum
+    });
+  }
+
+  if (schema.const !== undefined && !jsonEquals(schema.const, data)) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be equal to ${JSON.stringify(schema.const)}`,
+      value: data,
+      expected: schema.const
+    });
+  }
+
+  switch (getJsonType(data)) {
+    case 'string':
+      validateString(data, schema, path, errors);
+      break;
+    case 'integer':
+    case 'number':
+      validateNumber(data, schema, path, errors);
+      break;
+    case 'array':
+      validateArray(data, schema, path, context, errors);
+      break;
+    case 'object':
+      validateObject(data, schema, path, context, errors);
+      break;
+  }
+
+  validateCombinators(data, schema, path, context, errors);
+}
+
+function matchesType(data: any, type: string | string[]): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  const actual = getJsonType(data);
+  return types.some(expected =>
+    expected === actual || (expected === 'number' && actual === 'integer')
+  );
+}
+
+function validateString(data: string, schema: any, path: string, errors: ValidationError[]): void {
+  // Length is measured in code points, not UTF-16 code units
+  const length = Array.from(data).length;
+
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be at least ${schema.minLength} characters long`,
+      value: data,
+      expected: `minimum ${schema.minLength} characters`
+    });
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be at most ${schema.maxLength} characters long`,
+      value: data,
+      expected: `maximum ${schema.maxLength} characters`
+    });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(data)) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must match pattern ${schema.pattern}`,
+      value: data,
+      expected: schema.pattern
+    });
+  }
+  if (schema.format !== undefined) {
+    if (!matchesFormat(schema.format, data)) {
+      errors.push({
+        path,
+        message: `Field '${label(path)}' must be a valid ${schema.format}`,
+        value: data,
+        expected: schema.format
+      });
+    }
+  }
+}
+
+function validateNumber(data: number, schema: any, path: string, errors: ValidationError[]): void {
+  if (schema.minimum !== undefined && data < schema.minimum) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be greater than or equal to ${schema.minimum}`,
+      value: data,
+      expected: `>= ${schema.minimum}`
+    });
+  }
+  if (schema.maximum !== undefined && data > schema.maximum) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be less than or equal to ${schema.maximum}`,
+      value: data,
+      expected: `<= ${schema.maximum}`
+    });
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && data <= schema.exclusiveMinimum) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be greater than ${schema.exclusiveMinimum}`,
+      value: data,
+      expected: `> ${schema.exclusiveMinimum}`
+    });
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && data >= schema.exclusiveMaximum) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must be less than ${schema.exclusiveMaximum}`,
+      value: data,
+      expected: `< ${schema.exclusiveMaximum}`
+    });
+  }
+  if (schema.multipleOf !== undefined) {
+    const quotient = data / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      errors.push({
+        path,
+        message: `Field '${label(path)}' must be a multiple of ${schema.multipleOf}`,
+        value: data,
+        expected: `multiple of ${schema.multipleOf}`
+      });
+    }
+  }
+}
+
+function validateArray(
+  data: any[],
+  schema: any,
+  path: string,
+  context: SchemaContext,
+  errors: ValidationError[]
+): void {
+  if (schema.minItems !== undefined && data.length < schema.minItems) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must contain at least ${schema.minItems} items`,
+      value: data,
+      expected: `minimum ${schema.minItems} items`
+    });
+  }
+  if (schema.maxItems !== undefined && data.length > schema.maxItems) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must contain at most ${schema.maxItems} items`,
+      value: data,
+      expected: `maximum ${schema.maxItems} items`
+    });
+  }
+  if (schema.uniqueItems === true) {
+    const duplicate = data.findIndex((item, index) =>
+      data.slice(0, index).some(previous => jsonEquals(previous, item))
+    );
+    if (duplicate !== -1) {
+      errors.push({
+        path: joinPath(path, duplicate),
+        message: `Field '${label(path)}' must not contain duplicate items`,
+        value: data[duplicate],
+        expected: 'unique items'
+      });
+    }
+  }
+
+  if (Array.isArray(schema.items)) {
+    data.forEach((item, index) => {
+      const itemSchema = index < schema.items.length ? schema.items[index] : schema.additionalItems;
+      validateNode(item, itemSchema, joinPath(path, index), context, errors);
+    });
+  } else if (schema.items !== undefined) {
+    data.forEach((item, index) => {
+      validateNode(item, schema.items, joinPath(path, index), context, errors);
+    });
+  }
+
+  if (schema.contains !== undefined && !data.some(item => isValid(item, schema.contains, context))) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must contain at least one matching item`,
+      value: data,
+      expected: schema.contains
+    });
+  }
+}
+
+function validateObject(
+  data: Record<string, any>,
+  schema: any,
+  path: string,
+  context: SchemaContext,
+  errors: ValidationError[]
+): void {
+  // Properties explicitly set to undefined are treated as absent
+  const keys = Object.keys(data).filter(key => data[key] !== undefined);
+
+  if (schema.required) {
+    for (const field of schema.required as string[]) {
+      if (data[field] === undefined) {
+        const fieldPath = joinPath(path, field);
+        errors.push({
+          path: fieldPath,
+          message: `Required field '${fieldPath}' is missing`,
+          expected: 'defined value'
+        });
+      }
+    }
+  }
+
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must have at least ${schema.minProperties} properties`,
+      value: data,
+      expected: `minimum ${schema.minProperties} properties`
+    });
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must have at most ${schema.maxProperties} properties`,
+      value: data,
+      expected: `maximum ${schema.maxProperties} properties`
+    });
+  }
+
+  if (schema.dependencies) {
+    for (const [field, dependency] of Object.entries<any>(schema.dependencies)) {
+      if (data[field] === undefined) continue;
+      if (Array.isArray(dependency)) {
+        for (const dependent of dependency as string[]) {
+          if (data[dependent] === undefined) {
+            const dependentPath = joinPath(path, dependent);
+            errors.push({
+              path: dependentPath,
+              message: `Field '${dependentPath}' is required when '${joinPath(path, field)}' is present`,
+              expected: 'defined value'
+            });
+          }
+        }
+      } else {
+        validateNode(data, dependency, path, context, errors);
+      }
+    }
+  }
+
+  const patternProperties: [RegExp, any][] = Object.entries<any>(schema.patternProperties || {}).map(
+    ([pattern, propertySchema]) => [new RegExp(pattern), propertySchema]
+  );
+
+  for (const key of keys) {
+    const keyPath = joinPath(path, key);
+
+    if (schema.propertyNames !== undefined) {
+      const nameErrors: ValidationError[] = [];
+      validateNode(key, schema.propertyNames, keyPath, context, nameErrors);
+      if (nameErrors.length > 0) {
+        errors.push({
+          path: keyPath,
+          message: `Property name '${key}' is invalid`,
+          value: key,
+          expected: schema.propertyNames
+        });
+      }
+    }
+
+    let matched = false;
+    if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+      matched = true;
+      validateNode(data[key], schema.properties[key], keyPath, context, errors);
+    }
+    for (const [pattern, propertySchema] of patternProperties) {
+      if (pattern.test(key)) {
+        matched = true;
+        validateNode(data[key], propertySchema, keyPath, context, errors);
+      }
+    }
+
+    if (!matched && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) {
+        errors.push({
+          path: keyPath,
+          message: `Field '${keyPath}' is not allowed`,
+          value: data[key],
+          expected: 'no additional properties'
+        });
+      } else {
+        validateNode(data[key], schema.additionalProperties, keyPath, context, errors);
+      }
+    }
+  }
+}
+
+function validateCombinators(
+  data: any,
+  schema: any,
+  path: string,
+  context: SchemaContext,
+  errors: ValidationError[]
+): void {
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      validateNode(data, subschema, path, context, errors);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const branchErrors = schema.anyOf.map((subschema: any) => {
+      const collected: ValidationError[] = [];
+      validateNode(data, subschema, path, context, collected);
+      return collected;
+    });
+    if (!branchErrors.some((collected: ValidationError[]) => collected.length === 0)) {
+      errors.push({
+        path,
+        message: `Field '${label(path)}' must match at least one of the allowed schemas`,
+        value: data,
+        expected: 'anyOf'
+      });
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((subschema: any) => isValid(data, subschema, context)).length;
+    if (matches !== 1) {
+      errors.push({
+        path,
+        message: matches === 0
+          ? `Field '${label(path)}' must match exactly one of the allowed schemas`
+          : `Field '${label(path)}' matches ${matches} schemas but must match exactly one`,
+        value: data,
+        expected: 'oneOf'
+      });
+    }
+  }
+
+  if (schema.not !== undefined && isValid(data, schema.not, context)) {
+    errors.push({
+      path,
+      message: `Field '${label(path)}' must not match the excluded schema`,
+      value: data,
+      expected: 'not'
+    });
+  }
+
+  if (schema.if !== undefined) {
+    if (isValid(data, schema.if, context)) {
+      validateNode(data, schema.then, path, context, errors);
+    } else {
+      validateNode(data, schema.else, path, context, errors);
+    }
+  }
+}
+
+function isValid(data: any, schema: any, context: SchemaContext): boolean {
+  const errors: ValidationError[] = [];
+  validateNode(data, schema, '', context, errors);
+  return errors.length === 0;
+}
+
+function isFullDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return false;
+  }
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  const day = parseInt(match[3], 10);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth;
+}
+
+function isDateTime(value: string): boolean {
+  const parts = value.split(/[Tt ]/);
+  if (parts.length !== 2) {
+    return false;
+  }
+  const [date, time] = parts;
+  return (
+    isFullDate(date) &&
+    formatValidators.time(time)
+  );
+}
+
+function label(path: string): string {
+  return path || '(root)';
+}